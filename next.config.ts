@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Loaded on demand by the optional browser fetcher
+  serverExternalPackages: ["puppeteer-core"],
 };
 
 export default nextConfig;
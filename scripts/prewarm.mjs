@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+// Pre-warm the image cache from a sitemap through a running server's /api/prewarm.
+//
+//   node scripts/prewarm.mjs <sitemap URL | sitemap file | domain> [options]
+//
+// Options:
+//   --include <pattern>   Only URLs matching the glob (repeatable)
+//   --exclude <pattern>   Skip URLs matching the glob (repeatable)
+//   --max <n>             Maximum number of URLs
+//   --provider <name>     Image provider
+//   --device <name>       desktop, tablet or mobile
+//   --concurrency <n>     Pages rendered at once
+//   --force               Regenerate pages that are already cached
+//   --server <url>        Server to use (default: $PREWARM_SERVER or http://localhost:3000)
+//
+// CACHE_ADMIN_TOKEN must be set to the server's admin token.
+
+import { readFile, stat } from "node:fs/promises";
+import { parseArgs } from "node:util";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    include: { type: "string", multiple: true },
+    exclude: { type: "string", multiple: true },
+    max: { type: "string" },
+    provider: { type: "string" },
+    device: { type: "string" },
+    concurrency: { type: "string" },
+    force: { type: "boolean" },
+    server: { type: "string" },
+  },
+});
+
+const [target] = positionals;
+if (!target) {
+  console.error("Usage: node scripts/prewarm.mjs <sitemap URL | sitemap file | domain> [options]");
+  process.exit(2);
+}
+
+const token = process.env.CACHE_ADMIN_TOKEN;
+if (!token) {
+  console.error("CACHE_ADMIN_TOKEN is not set");
+  process.exit(2);
+}
+
+async function isFile(path) {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+const source = /^https?:\/\//i.test(target)
+  ? { sitemap: target }
+  : (await isFile(target))
+  ? { xml: await readFile(target, "utf8") }
+  : { domain: target };
+
+const server = (values.server || process.env.PREWARM_SERVER || "http://localhost:3000").replace(/\/$/, "");
+const response = await fetch(`${server}/api/prewarm`, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  },
+  body: JSON.stringify({
+    ...source,
+    include: values.include,
+    exclude: values.exclude,
+    maxUrls: values.max ? Number(values.max) : undefined,
+    provider: values.provider,
+    device: values.device,
+    concurrency: values.concurrency ? Number(values.concurrency) : undefined,
+    force: values.force,
+  }),
+});
+
+if (!response.ok || !response.body) {
+  const data = await response.json().catch(() => ({}));
+  console.error(`❌ ${response.status}: ${data.error || response.statusText}`);
+  process.exit(1);
+}
+
+console.log(`🔥 Pre-warming (job ${response.headers.get("x-job-id")})`);
+
+const urls = [];
+let result;
+let failure;
+
+function handle(event) {
+  switch (event.step) {
+    case "sitemap_read":
+      console.log(`🗺️  ${event.message}`);
+      break;
+    case "urls_collected":
+      urls.push(...event.urls);
+      console.log(`📋 ${event.message}`);
+      for (const { sitemap, error } of event.sitemapErrors) {
+        console.log(`⚠️  ${sitemap}: ${error}`);
+      }
+      break;
+    case "item_completed":
+      console.log(`✅ [${event.message}] ${event.url}${event.cached ? " (already cached)" : ""}`);
+      break;
+    case "item_failed":
+      console.log(`❌ [${event.message}] ${event.url}: ${event.error}`);
+      break;
+    case "batch_completed":
+      result = event;
+      break;
+    case "error":
+      failure = event.error;
+      break;
+  }
+}
+
+const reader = response.body.getReader();
+const decoder = new TextDecoder();
+let buffer = "";
+
+reading: while (true) {
+  const { done, value } = await reader.read();
+  if (done) break;
+
+  buffer += decoder.decode(value, { stream: true });
+  const lines = buffer.split("\n");
+  buffer = lines.pop() || "";
+
+  for (const line of lines) {
+    if (!line.startsWith("data: ")) continue;
+    const data = line.slice(6).trim();
+    if (data === "[DONE]") break reading;
+    handle(JSON.parse(data));
+  }
+}
+
+if (failure) {
+  console.error(`❌ ${failure}`);
+  process.exit(1);
+}
+if (!result) {
+  console.error("❌ The stream ended before pre-warming finished");
+  process.exit(1);
+}
+
+console.log(
+  `🏁 ${result.succeeded}/${urls.length} cached, ${result.failed} failed, ${result.cancelled} cancelled. Manifest: ${server}${result.manifestUrl}`
+);
+process.exit(result.failed > 0 ? 1 : 0);
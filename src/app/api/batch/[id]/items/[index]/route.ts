@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { getBatchImage } from "@/app/utils/batch";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, index } = await params;
+  try {
+    const stored = await getBatchImage(id, Number(index));
+    if (!stored) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    const extension = stored.mediaType.split("/")[1] || "png";
+    return new NextResponse(new Uint8Array(stored.image), {
+      headers: {
+        "Content-Type": stored.mediaType,
+        "Content-Disposition": `inline; filename="batch-${id}-${index}.${extension}"`,
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Failed to read image ${index} of batch ${id}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
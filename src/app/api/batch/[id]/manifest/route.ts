@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { getBatchManifest } from "@/app/utils/batch";
+
+export const runtime = "nodejs";
+
+// The manifest is written once the batch has finished
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const manifest = await getBatchManifest(id);
+    if (!manifest) {
+      return NextResponse.json(
+        { error: "Manifest not found; the batch may still be running" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(manifest, {
+      headers: {
+        "Content-Disposition": `attachment; filename="batch-${id}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Failed to read manifest for batch ${id}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { distinctIdFor } from "@/app/utils/distinct-id";
+import { createBatchTask, parseBatchRequest } from "@/app/utils/batch";
+import { openJobEventStream, startJob } from "@/app/utils/jobs";
+import { SSE_HEADERS } from "@/app/utils/sse-protocol";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Pro plan cap for Node.js Serverless
+
+/**
+ * Render many pages in one request. Runs as a job, so the stream can be
+ * resumed at /api/jobs/:id/events and cancelled with DELETE /api/jobs/:id.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = parseBatchRequest(body);
+    if ("error" in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const distinctId = distinctIdFor(request);
+
+    const { batch } = parsed;
+    const { job, done } = await startJob(null, createBatchTask(batch, distinctId), {
+      batchId: batch.id,
+      items: batch.items.length,
+      concurrency: batch.concurrency,
+    });
+
+    // Keep the function alive until the batch finishes
+    after(() => done);
+
+    const stream = await openJobEventStream(job.id);
+    return new NextResponse(stream, {
+      headers: {
+        ...SSE_HEADERS,
+        "X-Job-Id": job.id,
+        "X-Batch-Id": batch.id,
+      },
+    });
+  } catch (error) {
+    console.error("Error in batch API:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { clearOldCache, purgeCache } from "@/app/utils/image-cache";
+
+export const runtime = "nodejs";
+
+// Purge cached images by url, domain and/or provider, or by age
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { url, domain, provider, olderThanDays } = body;
+
+    for (const [field, value] of Object.entries({ url, domain, provider })) {
+      if (value !== undefined && (typeof value !== "string" || !value)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-empty string` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (
+      olderThanDays !== undefined &&
+      (typeof olderThanDays !== "number" || !(olderThanDays >= 0))
+    ) {
+      return NextResponse.json(
+        { error: "olderThanDays must be a non-negative number" },
+        { status: 400 }
+      );
+    }
+
+    if (olderThanDays !== undefined) {
+      if (url || domain || provider) {
+        return NextResponse.json(
+          { error: "olderThanDays cannot be combined with url, domain or provider" },
+          { status: 400 }
+        );
+      }
+      const deleted = await clearOldCache(olderThanDays);
+      return NextResponse.json({ success: true, deleted });
+    }
+
+    // Refuse to wipe the whole cache by accident
+    if (!url && !domain && !provider) {
+      return NextResponse.json(
+        { error: "Provide url, domain, provider or olderThanDays" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await purgeCache({ url, domain, provider });
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error("❌ Cache purge failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { getCacheStats } from "@/app/utils/image-cache";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getCacheStats());
+  } catch (error) {
+    console.error("❌ Failed to compute cache stats:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
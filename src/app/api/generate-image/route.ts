@@ -1,322 +1,70 @@
-import { NextRequest, NextResponse } from "next/server";
-import { fetchHTML } from "@/app/utils/fetch-html";
-import { generateImagePromptFromHTML } from "@/app/utils/describe-html";
-import { ImageProviderFactory } from "@/app/utils/image-providers";
-import { validateURL } from "@/app/utils/validate-url";
-import { getCachedImage, cacheImage } from "@/app/utils/image-cache";
+import { NextRequest, NextResponse, after } from "next/server";
+import { URLValidationError } from "@/app/utils/validate-url";
+import { ProviderError, type ProviderErrorKind } from "@/app/utils/provider-errors";
+import { distinctIdFor } from "@/app/utils/distinct-id";
+import {
+  joinFlight,
+  type FlightEvent,
+  type FlightSubscription,
+} from "@/app/utils/single-flight";
+import { SSE_HEADERS, SseEmitter } from "@/app/utils/sse-protocol";
+import {
+  createGenerationTask,
+  createWebsiteImageContext,
+  generationFlightKey,
+  parseGenerateRequest,
+  refreshCachedImage,
+  websiteImagePipeline,
+} from "@/app/utils/generate-website-image";
 
 export const runtime = "nodejs";
 export const maxDuration = 300; // Pro plan cap for Node.js Serverless
 
-export async function POST(request: NextRequest) {
-  const encoder = new TextEncoder();
+// Response status of PUT when the image provider fails
+const PROVIDER_ERROR_STATUS: Record<ProviderErrorKind, number> = {
+  rate_limited: 429,
+  content_policy: 422,
+  timeout: 504,
+  invalid_request: 502,
+  upstream: 502,
+  unknown: 500,
+};
 
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, provider: requestedProvider } = body;
-    // Default to Gemini, but allow override
-    const model = requestedProvider || "gemini-2.5-flash-image-preview";
-
-    // Get distinctId from PostHog cookie or generate one
-    const cookies = request.cookies;
-    const distinctId =
-      cookies.get("ph_posthog")?.value ||
-      request.headers.get("x-distinct-id") ||
-      `anon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-
-    if (!url) {
-      return NextResponse.json({ error: "URL is required" }, { status: 400 });
+    const parsed = parseGenerateRequest(body);
+    if ("error" in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
     }
+    const distinctId = distinctIdFor(request);
 
-    let cancelled = false;
+    // The pipeline publishes events to its flight, which forwards them to
+    // every subscribed client stream
+    const generate = createGenerationTask(parsed.request, distinctId);
+    const flightKey = generationFlightKey(parsed.request);
+    let subscription: FlightSubscription | undefined;
 
     // Create a streaming response
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Check if cancelled before each major operation
-          if (cancelled) return;
-
-          // Step 0: Check cache first
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "checking_cache",
-                message: "Checking image cache...",
-              })}\n\n`
-            )
-          );
-
-          const cachedResult = await getCachedImage(url, model);
-
-          if (cachedResult && !cancelled) {
-            console.log(`🎯 Cache hit for URL: ${url} with model: ${model}`);
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  step: "completed",
-                  message: "Image loaded from cache",
-                  image: cachedResult.base64,
-                  mediaType: cachedResult.mediaType,
-                  revisedPrompt: cachedResult.revisedPrompt,
-                  cached: true,
-                  blobUrl: cachedResult.blobUrl,
-                })}\n\n`
-              )
-            );
-            controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-            controller.close();
-            return;
-          }
-
-          console.log(`🔍 Cache miss for URL: ${url} with model: ${model}, generating new image`);
-
-          // Step 1: Validate URL
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "validating",
-                message: "Validating URL safety...",
-              })}\n\n`
-            )
-          );
-
-          const validation = await validateURL(url);
-
-          // Check if cancelled after validation
-          if (cancelled) {
-            controller.close();
-            return;
-          }
-
-          if (!validation.isValid) {
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  step: "error",
-                  error: `URL validation failed: ${validation.reason}`,
-                })}\n\n`
-              )
-            );
-            controller.close();
-            return;
-          }
-
-          if (validation.category === "potentially_unsafe") {
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  step: "validated",
-                  message: `URL validated with warning: ${
-                    validation.reason || "Proceeding with caution"
-                  }`,
-                })}\n\n`
-              )
-            );
-          } else {
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  step: "validated",
-                  message: "URL validated as safe",
-                })}\n\n`
-              )
-            );
-          }
-
-          // Step 2: Fetch HTML
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "fetching",
-                message: "Fetching HTML from URL...",
-              })}\n\n`
-            )
-          );
-
-          const startTime = Date.now();
-          const html = await fetchHTML(url);
-          const fetchTime = Date.now() - startTime;
-
-          // Check if cancelled after fetching HTML
-          if (cancelled) {
-            controller.close();
-            return;
-          }
-
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "fetched",
-                message: `HTML fetched`,
-              })}\n\n`
-            )
-          );
-
-          // Step 3: Generate description from HTML
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "describing",
-                message:
-                  "Analyzing website structure and generating description...",
-              })}\n\n`
-            )
-          );
-
-          const describeStartTime = Date.now();
-          const imagePrompt = await generateImagePromptFromHTML(
-            html,
-            distinctId
-          );
-          const describeTime = Date.now() - describeStartTime;
-
-          // Check if cancelled after generating description
-          if (cancelled) {
-            controller.close();
-            return;
-          }
-
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "described",
-                message: `Description generated`,
-              })}\n\n`
-            )
-          );
-
-          // Step 4: Generate image from description
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "generating",
-                message: `Generating image with ${model}...`,
-              })}\n\n`
-            )
-          );
-
-          const imageStartTime = Date.now();
-          const provider = ImageProviderFactory.getProvider(model);
-
-          // Use tall format for GPT (Gemini doesn't support size control)
-          const size = "1024x1536";
-          // Use streaming with partial images
-          const streamGenerator = provider.generateStream(
-            "Create a detailed image of the website. Only include the website content. Never include browser interface. Always generate website header and footer, and start at the top of the website described as follows: " +
-              imagePrompt,
-            {
-              size: size as `${number}x${number}`,
-              stream: true,
-              partialImages: 3,
-              distinctId,
-            }
-          );
-
-          let finalImageSent = false;
-
-          for await (const result of streamGenerator) {
-            // Check if cancelled during streaming
-            if (cancelled) {
-              controller.close();
-              return;
-            }
-
-            if (result.isPartial) {
-              // Send partial image
-              const partialData = JSON.stringify({
-                step: "partial_image",
-                message: `Partial image ${result.partialIndex} received...`,
-                image: result.base64,
-                mediaType: result.mediaType,
-                isPartial: true,
-                partialIndex: result.partialIndex,
-              });
-
-              // Send the partial image data
-              controller.enqueue(encoder.encode(`data: ${partialData}\n\n`));
-
-              // Add padding comment to force flush (2KB padding to bypass any buffering)
-              // This is a workaround for Vercel's potential buffering
-              const padding = `:${" ".repeat(2048)}\n\n`;
-              controller.enqueue(encoder.encode(padding));
-            } else {
-              // Final image
-              const imageTime = Date.now() - imageStartTime;
-
-              // Cache the final image (don't wait for it to complete)
-              cacheImage(url, {
-                base64: result.base64,
-                mediaType: result.mediaType,
-                revisedPrompt: result.revisedPrompt,
-              }, model).catch((error) => {
-                console.error(`❌ Failed to cache image for ${url} with model ${model}:`, error);
-              });
-
-              controller.enqueue(
-                encoder.encode(
-                  `data: ${JSON.stringify({
-                    step: "completed",
-                    message: `Image generated successfully`,
-                    image: result.base64,
-                    mediaType: result.mediaType,
-                    revisedPrompt: result.revisedPrompt,
-                    timing: {
-                      imageGeneration: `${imageTime}ms`,
-                    },
-                  })}\n\n`
-                )
-              );
-
-              finalImageSent = true;
-            }
-          }
-
-          // Ensure we always send completion event even if no final image was yielded
-          if (!finalImageSent) {
-            const imageTime = Date.now() - imageStartTime;
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  step: "completed",
-                  message: `Image generation completed`,
-                  timing: {
-                    imageGeneration: `${imageTime}ms`,
-                  },
-                })}\n\n`
-              )
-            );
-          }
-
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error";
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                step: "error",
-                error: errorMessage,
-              })}\n\n`
-            )
-          );
-          controller.close();
-        }
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const emitter = new SseEmitter<FlightEvent>(controller);
+        subscription = joinFlight(flightKey, generate, {
+          onEvent: (event) => emitter.send(event),
+          onDone: () => emitter.done(),
+        });
       },
       cancel() {
-        // This is called when the client disconnects
-        cancelled = true;
+        // This is called when the client disconnects; the run continues
+        // while other clients are still subscribed
+        subscription?.unsubscribe();
         console.log("🚫 Stream cancelled by client");
       },
     });
 
     return new NextResponse(stream, {
       headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache, no-transform",
-        Connection: "keep-alive",
-        "X-Accel-Buffering": "no", // Disable buffering on nginx/proxies
+        ...SSE_HEADERS,
         "Transfer-Encoding": "chunked",
       },
     });
@@ -335,90 +83,60 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, provider: requestedProvider } = body;
-    // Default to Gemini, but allow override
-    const model = requestedProvider || "gemini-2.5-flash-image-preview";
-
-    // Get distinctId from PostHog cookie or generate one
-    const cookies = request.cookies;
-    const distinctId =
-      cookies.get("ph_posthog")?.value ||
-      request.headers.get("x-distinct-id") ||
-      `anon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-
-    if (!url) {
-      return NextResponse.json({ error: "URL is required" }, { status: 400 });
+    const parsed = parseGenerateRequest(body);
+    if ("error" in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
     }
-
-    // Step 0: Check cache first
-    const cachedResult = await getCachedImage(url, model);
-
-    if (cachedResult) {
-      console.log(`🎯 Cache hit for URL: ${url} with model: ${model} (PUT endpoint)`);
-      return NextResponse.json({
-        success: true,
-        image: cachedResult.base64,
-        mediaType: cachedResult.mediaType,
-        revisedPrompt: cachedResult.revisedPrompt,
-        cached: true,
-        blobUrl: cachedResult.blobUrl,
-      });
+    const distinctId = distinctIdFor(request);
+    const { url, fetchers, device, model, cacheId } = parsed.request;
+
+    const context = createWebsiteImageContext(parsed.request, distinctId);
+    await websiteImagePipeline.run(context, { signal: request.signal });
+    const { image, outline, cachedStages } = context;
+    if (!image) {
+      throw new Error("No image was generated");
     }
 
-    console.log(
-      `🔍 Cache miss for URL: ${url} with model: ${model}, generating new image (PUT endpoint)`
-    );
-
-    // Step 1: Validate URL
-    const validation = await validateURL(url);
-
-    if (!validation.isValid) {
-      return NextResponse.json(
-        { error: `URL validation failed: ${validation.reason}` },
-        { status: 400 }
+    if (image.stale) {
+      // Respond now and refresh after the response is sent
+      after(() =>
+        refreshCachedImage({ url, fetchers, device, model, distinctId }).catch(
+          (error) => {
+            console.error(`❌ Failed to refresh cache entry for ${cacheId}:`, error);
+          }
+        )
       );
     }
 
-    // Step 2: Fetch HTML
-    const html = await fetchHTML(url);
-
-    // Step 3: Generate description from HTML
-    const imagePrompt = await generateImagePromptFromHTML(html, distinctId);
-
-    // Step 4: Generate image from description
-    const provider = ImageProviderFactory.getProvider(model);
-
-    // Use tall format for GPT (Gemini doesn't support size control)
-    const size = "1024x1536";
-    const result = await provider.generate(
-      "Create a detailed image of the website. Only include the website content. Never include browser interface. Always generate website header and footer, and start at the top of the website described as follows: " +
-        imagePrompt,
-      {
-        size: size as `${number}x${number}`,
-        quality: "high",
-        distinctId,
-      }
-    );
-
-    // Cache the generated image (don't wait for it to complete)
-    cacheImage(url, {
-      base64: result.base64,
-      mediaType: result.mediaType,
-      revisedPrompt: result.revisedPrompt,
-    }, model).catch((error) => {
-      console.error(
-        `❌ Failed to cache image for ${url} with model ${model} (PUT endpoint):`,
-        error
-      );
-    });
-
     return NextResponse.json({
       success: true,
-      image: result.base64,
-      mediaType: result.mediaType,
-      revisedPrompt: result.revisedPrompt,
+      image: image.base64,
+      mediaType: image.mediaType,
+      revisedPrompt: image.revisedPrompt,
+      cached: image.cached,
+      stale: image.stale,
+      blobUrl: image.blobUrl,
+      model: image.model,
+      outline,
+      cachedStages,
     });
   } catch (error) {
+    if (error instanceof URLValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof ProviderError) {
+      console.error("Image provider failed in generate-image API:", error);
+      return NextResponse.json(
+        { error: error.message, errorKind: error.kind, message: error.userMessage },
+        {
+          status: PROVIDER_ERROR_STATUS[error.kind],
+          headers:
+            error.retryAfterMs !== undefined
+              ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+              : undefined,
+        }
+      );
+    }
     console.error("Error in generate-image API:", error);
     return NextResponse.json(
       {
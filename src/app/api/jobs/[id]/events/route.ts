@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { openJobEventStream } from "@/app/utils/jobs";
+import { SSE_HEADERS } from "@/app/utils/sse-protocol";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Pro plan cap for Node.js Serverless
+
+/**
+ * SSE stream of a job's events. A reconnecting client sends the last event
+ * id it saw as Last-Event-ID (or ?lastEventId=) and gets only what it
+ * missed, followed by live events.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const lastEventId = Number(
+    request.headers.get("last-event-id") ??
+      request.nextUrl.searchParams.get("lastEventId") ??
+      0
+  );
+
+  const stream = await openJobEventStream(id, lastEventId);
+  if (!stream) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  return new NextResponse(stream, { headers: SSE_HEADERS });
+}
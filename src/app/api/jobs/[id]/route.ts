@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JobStoreFactory, cancelJob } from "@/app/utils/jobs";
+import type { GenerationEvent } from "@/app/utils/sse-protocol";
+
+export const runtime = "nodejs";
+
+// Job status, with the latest step and the final image once there is one
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await JobStoreFactory.getStore().get(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const latest = job.events[job.events.length - 1]?.data;
+  const result = job.events
+    .map(({ data }) => data)
+    .reverse()
+    .find(
+      (data): data is Extract<GenerationEvent, { step: "completed" | "refreshed" }> =>
+        (data.step === "completed" || data.step === "refreshed") && Boolean(data.image)
+    );
+
+  return NextResponse.json({
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    request: job.request,
+    step: latest?.step,
+    message: latest?.message,
+    error: job.error,
+    lastEventId: job.events[job.events.length - 1]?.id ?? 0,
+    result: result
+      ? {
+          image: result.image,
+          mediaType: result.mediaType,
+          revisedPrompt: result.revisedPrompt,
+          cached: result.step === "completed" ? result.cached : false,
+          blobUrl: result.step === "completed" ? result.blobUrl : undefined,
+        }
+      : undefined,
+  });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await JobStoreFactory.getStore().get(id);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  if (!(await cancelJob(id))) {
+    return NextResponse.json(
+      { error: `Job is not running (status: ${job.status})` },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ id, status: "cancelled" });
+}
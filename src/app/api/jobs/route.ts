@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  createGenerationTask,
+  generationFlightKey,
+  parseGenerateRequest,
+} from "@/app/utils/generate-website-image";
+import { startJob } from "@/app/utils/jobs";
+import { distinctIdFor } from "@/app/utils/distinct-id";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Pro plan cap for Node.js Serverless
+
+// Start a generation in the background; takes the same body as /api/generate-image
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseGenerateRequest(body);
+    if ("error" in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const distinctId = distinctIdFor(request);
+
+    const { url, inputHtml, model, device } = parsed.request;
+    const { job, done } = await startJob(
+      generationFlightKey(parsed.request),
+      createGenerationTask(parsed.request, distinctId),
+      {
+        url: inputHtml === undefined ? url : undefined,
+        html: inputHtml !== undefined,
+        provider: model,
+        device: device.name,
+      }
+    );
+
+    // Keep the function alive until the job finishes
+    after(() => done);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        eventsUrl: `/api/jobs/${job.id}/events`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error in jobs API:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
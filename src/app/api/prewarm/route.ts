@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { isAdminRequest } from "@/app/utils/admin-auth";
+import { distinctIdFor } from "@/app/utils/distinct-id";
+import { createPrewarmTask, parsePrewarmRequest } from "@/app/utils/prewarm";
+import { openJobEventStream, startJob } from "@/app/utils/jobs";
+import { SSE_HEADERS } from "@/app/utils/sse-protocol";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // Pro plan cap for Node.js Serverless
+
+/**
+ * Pre-generate images for the pages of a sitemap. Runs as a job, like
+ * /api/batch, and streams its progress.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request.headers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = parsePrewarmRequest(body);
+    if ("error" in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const { prewarm } = parsed;
+    const distinctId = distinctIdFor(request);
+    const { job, done } = await startJob(null, createPrewarmTask(prewarm, distinctId), {
+      prewarm: "xml" in prewarm.source ? "uploaded sitemap" : prewarm.source,
+      ...prewarm.filters,
+    });
+
+    // Keep the function alive until pre-warming finishes
+    after(() => done);
+
+    const stream = await openJobEventStream(job.id);
+    return new NextResponse(stream, {
+      headers: { ...SSE_HEADERS, "X-Job-Id": job.id },
+    });
+  } catch (error) {
+    console.error("Error in prewarm API:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
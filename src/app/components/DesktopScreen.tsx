@@ -1,6 +1,14 @@
 "use client";
 
 import { ReactNode, useState, useEffect, useRef } from "react";
+import {
+  DEFAULT_DEVICE,
+  DEVICE_PROFILES,
+  type DeviceName,
+} from "../utils/device-profiles";
+import { tryCanonicalizeUrl } from "../utils/canonical-url";
+
+const DEVICE_ORDER: DeviceName[] = ["desktop", "tablet", "mobile"];
 
 interface DesktopScreenProps {
   children: ReactNode;
@@ -14,6 +22,8 @@ interface DesktopScreenProps {
   isCached?: boolean;
   provider?: string;
   onProviderChange?: (provider: string) => void;
+  device?: DeviceName;
+  onDeviceChange?: (device: DeviceName) => void;
 }
 
 export default function DesktopScreen({
@@ -28,6 +38,8 @@ export default function DesktopScreen({
   isCached,
   provider = "gemini-2.5-flash-image-preview",
   onProviderChange,
+  device = DEFAULT_DEVICE,
+  onDeviceChange,
 }: DesktopScreenProps) {
   const [localUrl, setLocalUrl] = useState(url || "");
   const [scale, setScale] = useState(1);
@@ -36,18 +48,9 @@ export default function DesktopScreen({
   const [isMuted, setIsMuted] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
-  // Helper function to normalize URLs
-  const normalizeUrl = (inputUrl: string): string => {
-    const trimmed = inputUrl.trim();
-    if (!trimmed) return trimmed;
-    
-    // Check if URL already has a protocol
-    if (!/^https?:\/\//i.test(trimmed)) {
-      // Add https:// if no protocol is specified
-      return `https://${trimmed}`;
-    }
-    return trimmed;
-  };
+  // Helper function to normalize URLs (adds https:// and applies the same
+  // canonical form the server uses for cache keys)
+  const normalizeUrl = (inputUrl: string): string => tryCanonicalizeUrl(inputUrl);
 
   useEffect(() => {
     setLocalUrl(url || "");
@@ -119,6 +122,11 @@ export default function DesktopScreen({
   const monitorWidth = monitorBottomRight.x - monitorTopLeft.x; // 691px
   const monitorHeight = monitorBottomRight.y - monitorTopLeft.y; // 505px
 
+  // Phone and tablet renders are shown inside a device frame on the monitor
+  const nextDevice =
+    DEVICE_ORDER[(DEVICE_ORDER.indexOf(device) + 1) % DEVICE_ORDER.length];
+  const frameWidth = device === "mobile" ? 220 : 420;
+
   // Calculate scale factor for content within monitor bounds
   const contentScale = Math.min(1, scale); // Don't scale content beyond 1x for readability
 
@@ -257,6 +265,28 @@ export default function DesktopScreen({
                   className="w-5 h-5"
                 />
               </button>
+              <button
+                onClick={() => onDeviceChange?.(nextDevice)}
+                disabled={isGenerating}
+                className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center transition-colors disabled:cursor-not-allowed"
+                title={`${DEVICE_PROFILES[device].label} view (switch to ${DEVICE_PROFILES[nextDevice].label.toLowerCase()})`}
+              >
+                {device === "desktop" ? (
+                  <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                  </svg>
+                ) : device === "tablet" ? (
+                  <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <rect x="5" y="2" width="14" height="20" rx="2" strokeWidth={2} />
+                    <path strokeLinecap="round" strokeWidth={2} d="M11 18h2" />
+                  </svg>
+                ) : (
+                  <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <rect x="7" y="2" width="10" height="20" rx="2" strokeWidth={2} />
+                    <path strokeLinecap="round" strokeWidth={2} d="M11 18h2" />
+                  </svg>
+                )}
+              </button>
               <button
                 onClick={() => setIsMuted(!isMuted)}
                 className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center transition-colors"
@@ -277,7 +307,29 @@ export default function DesktopScreen({
 
             {/* Content area with scrolling */}
             <div className="overflow-y-auto overflow-x-hidden scrollbar-custom h-[460px]">
-              <div className="min-w-full h-[460px] bg-white">{children}</div>
+              {device === "desktop" ? (
+                <div className="min-w-full h-[460px] bg-white">{children}</div>
+              ) : (
+                <div className="min-w-full min-h-[460px] bg-gray-700 flex justify-center py-4">
+                  <div
+                    className={`bg-black p-2 shadow-xl h-fit ${
+                      device === "mobile" ? "rounded-[28px]" : "rounded-[20px]"
+                    }`}
+                    style={{ width: `${frameWidth}px` }}
+                  >
+                    {device === "mobile" && (
+                      <div className="mx-auto mb-2 h-3 w-16 rounded-full bg-gray-800" />
+                    )}
+                    <div
+                      className={`bg-white overflow-hidden ${
+                        device === "mobile" ? "rounded-[20px]" : "rounded-[12px]"
+                      }`}
+                    >
+                      {children}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
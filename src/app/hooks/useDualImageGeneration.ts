@@ -1,16 +1,18 @@
 "use client";
 
 import { useState, useCallback } from "react";
-
-export type GenerationStep = 
-  | "idle"
-  | "fetching"
-  | "fetched"
-  | "processing"
-  | "processed"
-  | "generating"
-  | "completed"
-  | "error";
+import type { HtmlFetchDetails } from "../utils/html-fetchers";
+import type { PrecleanStats } from "../utils/preclean-html";
+import type { ChunkingInfo } from "../utils/token-budget";
+import type { StyleSummary } from "../utils/extract-styles";
+import type { ProviderErrorKind } from "../utils/provider-errors";
+import {
+  DualEventSchema,
+  readSseStream,
+  type DualEvent,
+} from "../utils/sse-protocol";
+
+export type GenerationStep = "idle" | DualEvent["step"];
 
 export interface DualGenerationState {
   step: GenerationStep;
@@ -26,7 +28,17 @@ export interface DualGenerationState {
     revisedPrompt?: string;
   };
   imagePrompt?: string;
+  fetchDetails?: HtmlFetchDetails;
+  precleanStats?: PrecleanStats;
+  chunking?: ChunkingInfo;
+  styles?: StyleSummary;
   error?: string;
+  errorKind?: ProviderErrorKind;
+  // Sizes after processing, from the "processed" step
+  processingStats?: {
+    cleanedLength: number;
+    promptLength: number;
+  };
   stats?: {
     originalHTMLLength: number;
     cleanedHTMLLength: number;
@@ -63,48 +75,25 @@ export function useDualImageGeneration() {
           throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
+        if (!response.body) {
           throw new Error("No response body");
         }
 
-        let buffer = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          buffer += chunk;
-
-          // Process complete SSE messages
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.trim() === "") continue;
-            
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6).trim();
-              
-              if (data === "[DONE]") {
-                setIsGenerating(false);
-                return;
-              }
-
-              if (data) {
-                try {
-                  const parsed = JSON.parse(data);
-                  setState(parsed);
-                } catch (e) {
-                  console.error("Failed to parse SSE data:", e, "Data:", data);
-                }
-              }
+        await readSseStream(response.body, DualEventSchema, {
+          onEvent: (event) => {
+            if (event.step === "processed") {
+              const { stats, ...rest } = event;
+              setState({ ...rest, processingStats: stats });
+            } else if (event.step === "error") {
+              setState({ message: "Generation failed", ...event });
+            } else {
+              setState(event);
             }
-          }
-        }
+          },
+          onInvalid: (data, reason) => {
+            console.error("Ignoring SSE event:", reason, "Data:", data);
+          },
+        });
       } catch (error) {
         console.error("Generation error:", error);
         setState({
@@ -1,20 +1,24 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { HtmlFetchDetails } from "../utils/html-fetchers";
+import type { PrecleanStats } from "../utils/preclean-html";
+import type { ChunkingInfo } from "../utils/token-budget";
+import type { PageOutline } from "../utils/page-outline";
+import type { StyleSummary } from "../utils/extract-styles";
+import type { DeviceName } from "../utils/device-profiles";
+import type { CachedStage } from "../utils/artifact-cache";
+import type { ProviderErrorKind } from "../utils/provider-errors";
+import {
+  GenerationEventSchema,
+  readSseStream,
+  type GenerationEvent,
+} from "../utils/sse-protocol";
 
-export type GenerationStep = 
+// "refreshed" and "cancelled" update the current state rather than replace the step
+export type GenerationStep =
   | "idle"
-  | "checking_cache"
-  | "validating"
-  | "validated"
-  | "fetching"
-  | "fetched"
-  | "describing"
-  | "described"
-  | "generating"
-  | "partial_image"
-  | "completed"
-  | "error";
+  | Exclude<GenerationEvent["step"], "refreshed" | "cancelled">;
 
 export interface PartialImage {
   base64: string;
@@ -27,10 +31,70 @@ export interface GenerationState {
   message: string;
   image?: string;
   mediaType?: string;
+  revisedPrompt?: string;
   partialImages?: PartialImage[];
   error?: string;
+  // Set when the image provider failed; "content_policy" won't succeed on retry
+  errorKind?: ProviderErrorKind;
   cached?: boolean;
+  // Served from an outdated cache entry; a "refreshed" image may follow
+  stale?: boolean;
+  // Pipeline stages served from cache for this result
+  cachedStages?: CachedStage[];
   blobUrl?: string;
+  // Set when another provider drew the image after a provider_fallback
+  model?: string;
+  fetchDetails?: HtmlFetchDetails;
+  precleanStats?: PrecleanStats;
+  chunking?: ChunkingInfo;
+  styles?: StyleSummary;
+  // Structured outline from the "described" step; can be edited and passed
+  // back to generateImage to regenerate from it
+  outline?: PageOutline | null;
+  timing?: {
+    imageGeneration: string;
+    stages?: Record<string, number>;
+  };
+}
+
+export interface GenerateImageOptions {
+  outline?: PageOutline;
+  device?: DeviceName;
+  // Skip the cache read and regenerate, replacing the cached image
+  force?: boolean;
+}
+
+// The running job survives reloads in sessionStorage so the page can reattach
+const ACTIVE_JOB_KEY = "websiteImageJob";
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
+export interface ActiveJob {
+  jobId: string;
+  url: string;
+  provider?: string;
+  device?: DeviceName;
+}
+
+function readActiveJob(): ActiveJob | null {
+  try {
+    const stored = sessionStorage.getItem(ACTIVE_JOB_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeActiveJob(job: ActiveJob | null) {
+  try {
+    if (job) {
+      sessionStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+    } else {
+      sessionStorage.removeItem(ACTIVE_JOB_KEY);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); reattaching just won't work
+  }
 }
 
 export function useImageGeneration() {
@@ -39,10 +103,160 @@ export function useImageGeneration() {
     message: "",
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [activeJob, setActiveJob] = useState<ActiveJob | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const activeJobRef = useRef<ActiveJob | null>(null);
 
-  const generateImage = useCallback(
-    async (url: string, provider?: string) => {
+  const trackJob = useCallback((job: ActiveJob | null) => {
+    activeJobRef.current = job;
+    setActiveJob(job);
+    writeActiveJob(job);
+  }, []);
+
+  const applyEvent = useCallback((event: GenerationEvent) => {
+    switch (event.step) {
+      case "partial_image":
+        // Handle partial image - replace the current partial image
+        setState(prevState => ({
+          ...prevState,
+          step: "partial_image",
+          message: event.message,
+          partialImages: [
+            {
+              base64: event.image,
+              mediaType: event.mediaType,
+              partialIndex: event.partialIndex,
+            },
+          ], // Only keep the latest partial image
+          image: undefined, // Clear any final image
+        }));
+        break;
+      case "completed":
+        // Handle final image - clear partials and show final image
+        setState(prevState => ({
+          ...prevState,
+          step: "completed",
+          message: event.message,
+          image: event.image,
+          mediaType: event.mediaType,
+          revisedPrompt: event.revisedPrompt,
+          cached: event.cached,
+          stale: event.stale,
+          blobUrl: event.blobUrl,
+          model: event.model,
+          cachedStages: event.cachedStages,
+          timing: event.timing,
+          partialImages: undefined, // Clear partials when final image arrives
+        }));
+        // A stale image is final for the UI; keep reading in
+        // the background for the "refreshed" follow-up
+        if (event.stale) {
+          setIsGenerating(false);
+        }
+        break;
+      case "refreshed":
+        setState(prevState => ({
+          ...prevState,
+          message: event.message,
+          image: event.image,
+          mediaType: event.mediaType,
+          revisedPrompt: event.revisedPrompt,
+          stale: false,
+        }));
+        break;
+      case "provider_fallback":
+        // The next provider starts over, so drop the failed one's partials
+        setState(prevState => ({
+          ...prevState,
+          step: "provider_fallback",
+          message: event.message,
+          partialImages: undefined,
+        }));
+        break;
+      case "cancelled":
+        // Cancelled from elsewhere, e.g. another tab of this session
+        setState({ step: "idle", message: "", partialImages: undefined });
+        break;
+      case "error":
+        setState(prevState => ({
+          ...prevState,
+          step: "error",
+          message: event.message ?? "Generation failed",
+          error: event.error,
+          errorKind: event.errorKind,
+        }));
+        break;
+      default:
+        // Handle other state updates normally
+        setState(prevState => ({
+          ...prevState,
+          ...event,
+        }));
+    }
+  }, []);
+
+  /**
+   * Stream a job's events until it finishes. Dropped connections resume
+   * from the last event seen; a reattach after reload replays from the start.
+   */
+  const followJob = useCallback(
+    async (jobId: string, signal: AbortSignal) => {
+      let lastEventId: string | undefined;
+      let reconnects = 0;
+
+      while (!signal.aborted) {
+        try {
+          const response = await fetch(`/api/jobs/${jobId}/events`, {
+            headers: lastEventId ? { "Last-Event-ID": lastEventId } : undefined,
+            signal,
+          });
+
+          if (response.status === 404) {
+            throw new Error("Generation job not found");
+          }
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          if (!response.body) {
+            throw new Error("No response body");
+          }
+
+          const finished = await readSseStream(
+            response.body,
+            GenerationEventSchema,
+            {
+              onEvent: (event, id) => {
+                lastEventId = id ?? lastEventId;
+                reconnects = 0;
+                applyEvent(event);
+              },
+              onInvalid: (data, reason) => {
+                console.error("Ignoring SSE event:", reason, "Data:", data);
+              },
+            },
+            signal
+          );
+          if (finished) return;
+        } catch (error) {
+          // Only connection failures are retried
+          if (signal.aborted || !(error instanceof TypeError)) throw error;
+        }
+
+        // The connection dropped while the job is still running, so resume
+        if (signal.aborted) return;
+        if (reconnects >= MAX_RECONNECTS) {
+          throw new Error("Lost connection to the generation job");
+        }
+        reconnects++;
+        console.log(`Reconnecting to job ${jobId} after event ${lastEventId ?? "none"}`);
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    },
+    [applyEvent]
+  );
+
+  const runJob = useCallback(
+    async (start: (signal: AbortSignal) => Promise<ActiveJob>) => {
       // Cancel any existing generation
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -53,103 +267,13 @@ export function useImageGeneration() {
       abortControllerRef.current = abortController;
 
       setIsGenerating(true);
-      setState({ step: "fetching", message: "Starting generation..." });
 
       try {
-        const response = await fetch("/api/generate-image", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ url, provider }),
-          signal: abortController.signal,
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-
-        if (!reader) {
-          throw new Error("No response body");
-        }
-
-        let buffer = "";
-
-        while (true) {
-          // Check if request was aborted
-          if (abortController.signal.aborted) {
-            reader.cancel();
-            break;
-          }
-
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          buffer += chunk;
-
-          // Process complete SSE messages
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.trim() === "") continue; // Skip empty lines
-            if (line.startsWith(":")) continue; // Skip SSE comments (used for padding)
-            
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6).trim();
-              
-              if (data === "[DONE]") {
-                setIsGenerating(false);
-                return;
-              }
-
-              if (data) {
-                try {
-                  const parsed = JSON.parse(data);
-                  
-                  if (parsed.step === "partial_image") {
-                    // Handle partial image - replace the current partial image
-                    const newPartial: PartialImage = {
-                      base64: parsed.image,
-                      mediaType: parsed.mediaType,
-                      partialIndex: parsed.partialIndex,
-                    };
-                    
-                    setState(prevState => ({
-                      ...prevState,
-                      step: "partial_image",
-                      message: parsed.message,
-                      partialImages: [newPartial], // Only keep the latest partial image
-                      image: undefined, // Clear any final image
-                    }));
-                  } else if (parsed.step === "completed") {
-                    // Handle final image - clear partials and show final image
-                    setState(prevState => ({
-                      ...prevState,
-                      step: "completed",
-                      message: parsed.message,
-                      image: parsed.image,
-                      mediaType: parsed.mediaType,
-                      revisedPrompt: parsed.revisedPrompt,
-                      partialImages: undefined, // Clear partials when final image arrives
-                    }));
-                  } else {
-                    // Handle other state updates normally
-                    setState(prevState => ({
-                      ...prevState,
-                      ...parsed,
-                    }));
-                  }
-                } catch (e) {
-                  console.error("Failed to parse SSE data:", e, "Data:", data);
-                }
-              }
-            }
-          }
+        const job = await start(abortController.signal);
+        trackJob(job);
+        await followJob(job.jobId, abortController.signal);
+        if (!abortController.signal.aborted) {
+          trackJob(null);
         }
       } catch (error) {
         // Don't show error if request was aborted
@@ -159,6 +283,7 @@ export function useImageGeneration() {
           setState({ step: "idle", message: "", partialImages: undefined });
         } else {
           console.error("Generation error:", error);
+          trackJob(null);
           setState({
             step: "error",
             message: "Generation failed",
@@ -173,7 +298,7 @@ export function useImageGeneration() {
         }
       }
     },
-    []
+    [followJob, trackJob]
   );
 
   const cancel = useCallback(() => {
@@ -182,7 +307,61 @@ export function useImageGeneration() {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
-  }, []);
+    // Closing the stream leaves the job running, so cancel it explicitly
+    const job = activeJobRef.current;
+    if (job) {
+      trackJob(null);
+      fetch(`/api/jobs/${job.jobId}`, { method: "DELETE" }).catch((error) => {
+        console.error("Failed to cancel job:", error);
+      });
+    }
+  }, [trackJob]);
+
+  const generateImage = useCallback(
+    async (url: string, provider?: string, options: GenerateImageOptions = {}) => {
+      cancel();
+      setState({ step: "fetching", message: "Starting generation..." });
+
+      await runJob(async (signal) => {
+        const response = await fetch("/api/jobs", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            url,
+            provider,
+            outline: options.outline,
+            device: options.device,
+            force: options.force,
+          }),
+          signal,
+        });
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+        }
+
+        const { jobId } = await response.json();
+        return { jobId, url, provider, device: options.device };
+      });
+    },
+    [cancel, runJob]
+  );
+
+  // Reattach to a job that was still running when the page was reloaded
+  useEffect(() => {
+    const stored = readActiveJob();
+    if (!stored) return;
+
+    setState({ step: "fetching", message: "Resuming generation..." });
+    runJob(async () => stored);
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [runJob]);
 
   const reset = useCallback(() => {
     // Cancel any ongoing generation
@@ -193,6 +372,8 @@ export function useImageGeneration() {
   return {
     state,
     isGenerating,
+    // The job being followed, e.g. to restore the address bar after a reload
+    activeJob,
     generateImage,
     reset,
     cancel,
@@ -229,7 +410,8 @@ export function useSimpleImageGeneration() {
         const data = await response.json();
 
         if (!response.ok) {
-          throw new Error(data.error || "Generation failed");
+          // Provider failures carry a message meant for users
+          throw new Error(data.message || data.error || "Generation failed");
         }
 
         setResult(data);
@@ -3,13 +3,15 @@
 import { useState, useEffect, useRef } from "react";
 import { useImageGeneration } from "./hooks/useImageGeneration";
 import DesktopScreen from "./components/DesktopScreen";
+import { DEFAULT_DEVICE, type DeviceName } from "./utils/device-profiles";
 import { usePostHog } from "posthog-js/react";
 import { testPostHogObservability } from "./actions/test-posthog";
 
 export default function Home() {
   const [url, setUrl] = useState("");
   const [provider, setProvider] = useState("gemini-2.5-flash-image-preview");
-  const { state, isGenerating, generateImage, reset, cancel } =
+  const [device, setDevice] = useState<DeviceName>(DEFAULT_DEVICE);
+  const { state, isGenerating, activeJob, generateImage, reset, cancel } =
     useImageGeneration();
   const posthog = usePostHog();
   const postitRef = useRef<HTMLDivElement | null>(null);
@@ -90,6 +92,14 @@ export default function Home() {
     };
   }, []);
 
+  // Restore the inputs of a generation resumed after a reload
+  useEffect(() => {
+    if (!activeJob) return;
+    setUrl((current) => current || activeJob.url);
+    if (activeJob.provider) setProvider(activeJob.provider);
+    if (activeJob.device) setDevice(activeJob.device);
+  }, [activeJob]);
+
   // Test PostHog observability on page load
   useEffect(() => {
     const testObservability = async () => {
@@ -141,6 +151,7 @@ export default function Home() {
     posthog?.capture("image_generation_started", {
       url: newUrl,
       provider: provider,
+      device: device,
       cached: false, // Will be updated later if cached
       llm_observability_enabled: true,
     });
@@ -151,7 +162,7 @@ export default function Home() {
     }
 
     setUrl(newUrl);
-    await generateImage(newUrl, provider);
+    await generateImage(newUrl, provider, { device });
   };
 
   // Track when image generation completes or fails
@@ -168,9 +179,10 @@ export default function Home() {
         cached: false,
         success: false,
         error: state.error,
+        errorKind: state.errorKind,
       });
     }
-  }, [state.step, state.image, state.cached, state.error, url, posthog]);
+  }, [state.step, state.image, state.cached, state.error, state.errorKind, url, posthog]);
 
   return (
     <div
@@ -263,6 +275,8 @@ export default function Home() {
         isCached={state.cached}
         provider={provider}
         onProviderChange={setProvider}
+        device={device}
+        onDeviceChange={setDevice}
       >
         <div className="w-full h-[460px]">
           {blockedByAdult ? (
@@ -305,11 +319,18 @@ export default function Home() {
             />
           ) : isGenerating &&
             (state.step === "checking_cache" ||
+              state.step === "revalidating" ||
               state.step === "validating" ||
               state.step === "fetching" ||
               state.step === "fetched" ||
+              state.step === "styles_extracted" ||
+              state.step === "precleaned" ||
               state.step === "describing" ||
+              state.step === "chunking" ||
               state.step === "described" ||
+              state.step === "rate_limited" ||
+              state.step === "retrying" ||
+              state.step === "provider_fallback" ||
               state.step === "generating") ? (
             // Loading screen while generating before any partial images arrive
             <div
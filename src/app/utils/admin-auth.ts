@@ -0,0 +1,17 @@
+import crypto from "crypto";
+
+/**
+ * Check the `Authorization: Bearer <token>` header against CACHE_ADMIN_TOKEN.
+ * Admin endpoints are disabled entirely when the token is not configured.
+ */
+export function isAdminRequest(headers: Headers): boolean {
+  const token = process.env.CACHE_ADMIN_TOKEN;
+  if (!token) return false;
+
+  const match = headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(token);
+  const provided = Buffer.from(match[1].trim());
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { CacheStoreFactory } from './cache-store';
+import { canonicalUrlRulesFromEnv, tryCanonicalizeUrl } from './canonical-url';
+import type { URLValidationResult } from './validate-url';
+import type { HtmlFetchResult } from './html-fetchers';
+import type { PrecleanStats } from './preclean-html';
+import type { StyleSummary } from './extract-styles';
+import type { PageOutline } from './page-outline';
+
+/**
+ * Intermediate results of the generate pipeline. They don't depend on the
+ * image provider, so switching providers can reuse them.
+ */
+export interface ArtifactTypes {
+  validation: URLValidationResult;
+  html: HtmlFetchResult;
+  cleaned: {
+    html: string;
+    stats: PrecleanStats;
+    styles: StyleSummary;
+    contentHash: string;
+  };
+  description: {
+    outline: PageOutline | null;
+    // Free-text fallback prompt, used when no outline could be extracted
+    imagePrompt: string;
+    maxPromptLength: number;
+  };
+}
+
+export type ArtifactStage = keyof ArtifactTypes;
+
+// Stages reported to clients; "image" is the final image cache
+export type CachedStage = ArtifactStage | 'image';
+
+// Bump a stage's version when the code producing it changes shape or output
+export const ARTIFACT_VERSIONS: Record<ArtifactStage, number> = {
+  validation: 1,
+  html: 1,
+  cleaned: 1,
+  description: 1,
+};
+
+export const ARTIFACT_PREFIX = 'artifacts/';
+
+// Stages that don't vary with the device's User-Agent
+const DEVICE_INDEPENDENT: ArtifactStage[] = ['validation'];
+
+interface ArtifactEntry<S extends ArtifactStage> {
+  stage: S;
+  version: number;
+  createdAt: number;
+  expiresAt?: number;
+  value: ArtifactTypes[S];
+}
+
+// Pages change, so artifacts are kept much shorter than images; 0 disables expiry
+function artifactTtlMs(): number {
+  const minutes = Number(process.env.CACHE_ARTIFACT_TTL_MINUTES ?? 60);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+/**
+ * Key for one stage of one page, e.g. `artifacts/html/v1/<hash>.json`. The
+ * version is part of the key, so bumping it orphans old entries.
+ */
+export function generateArtifactKey(stage: ArtifactStage, cacheId: string, device?: string): string {
+  const id = cacheId.startsWith('html:') ? cacheId : tryCanonicalizeUrl(cacheId, canonicalUrlRulesFromEnv());
+  const scope = DEVICE_INDEPENDENT.includes(stage) ? id : `${id}_${device || 'desktop'}`;
+  const hash = crypto.createHash('sha256').update(scope).digest('hex').substring(0, 32);
+  return `${ARTIFACT_PREFIX}${stage}/v${ARTIFACT_VERSIONS[stage]}/${hash}.json`;
+}
+
+/**
+ * Whether a listed artifact can no longer be read: its stage or version is
+ * not the current one, or it was written more than the TTL ago
+ */
+export function isDeadArtifact(key: string, uploadedAt: Date): boolean {
+  const [stage, version] = key.slice(ARTIFACT_PREFIX.length).split('/');
+  if (!Object.hasOwn(ARTIFACT_VERSIONS, stage)) return true;
+  if (version !== `v${ARTIFACT_VERSIONS[stage as ArtifactStage]}`) return true;
+
+  const ttlMs = artifactTtlMs();
+  return ttlMs > 0 && uploadedAt.getTime() + ttlMs <= Date.now();
+}
+
+/**
+ * Read a cached artifact. Expired, outdated or unreadable entries are misses.
+ */
+export async function getArtifact<S extends ArtifactStage>(
+  stage: S,
+  cacheId: string,
+  device?: string
+): Promise<ArtifactTypes[S] | null> {
+  try {
+    const stored = await CacheStoreFactory.getStore().get(generateArtifactKey(stage, cacheId, device));
+    if (!stored) return null;
+
+    const entry: ArtifactEntry<S> = JSON.parse(stored.body);
+    if (entry.version !== ARTIFACT_VERSIONS[stage]) return null;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) return null;
+
+    console.log(`📦 Artifact hit: ${stage} for ${cacheId}`);
+    return entry.value;
+  } catch (error) {
+    console.error(`❌ Error reading ${stage} artifact for ${cacheId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store an artifact. Failures are logged and never thrown.
+ */
+export async function cacheArtifact<S extends ArtifactStage>(
+  stage: S,
+  cacheId: string,
+  device: string | undefined,
+  value: ArtifactTypes[S]
+): Promise<void> {
+  try {
+    const createdAt = Date.now();
+    const ttlMs = artifactTtlMs();
+    const entry: ArtifactEntry<S> = {
+      stage,
+      version: ARTIFACT_VERSIONS[stage],
+      createdAt,
+      expiresAt: ttlMs ? createdAt + ttlMs : undefined,
+      value,
+    };
+    await CacheStoreFactory.getStore().set(
+      generateArtifactKey(stage, cacheId, device),
+      JSON.stringify(entry),
+      'application/json'
+    );
+  } catch (error) {
+    console.error(`❌ Error caching ${stage} artifact for ${cacheId}:`, error);
+  }
+}
@@ -0,0 +1,354 @@
+import crypto from "crypto";
+import { CacheStoreFactory, MemoryCacheStore, type CacheStore } from "./cache-store";
+import {
+  createGenerationTask,
+  generationFlightKey,
+  parseGenerateRequest,
+  type GenerateRequest,
+} from "./generate-website-image";
+import { JOB_TTL_MS } from "./jobs";
+import { createConcurrencyLimiter } from "./rate-limit";
+import { joinFlight, type FlightEvent, type FlightTask } from "./single-flight";
+import type { GenerationEvent } from "./sse-protocol";
+
+export const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS) || 500;
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
+const BATCH_MAX_CONCURRENCY = Number(process.env.BATCH_MAX_CONCURRENCY) || 16;
+
+// Fields an item may set for itself; everything else comes from the batch
+const ITEM_FIELDS = ["url", "html", "baseUrl", "provider", "device", "fetchers"];
+
+export interface BatchRequest {
+  id: string;
+  items: GenerateRequest[];
+  concurrency: number;
+  // Keep a copy of each image under the batch; pre-warming only needs the cache
+  storeImages: boolean;
+}
+
+export type ParsedBatchRequest =
+  | { batch: BatchRequest }
+  | { error: string; issues?: unknown };
+
+export interface BatchManifestItem {
+  index: number;
+  // Absent for raw HTML items
+  url?: string;
+  provider: string;
+  device: string;
+  status: "completed" | "failed" | "cancelled";
+  cached?: boolean;
+  mediaType?: string;
+  revisedPrompt?: string;
+  // Download path of the image
+  image?: string;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface BatchManifest {
+  id: string;
+  createdAt: string;
+  completedAt: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  items: BatchManifestItem[];
+}
+
+export const CONCURRENCY_ERROR = `concurrency must be an integer from 1 to ${BATCH_MAX_CONCURRENCY}`;
+
+export function isValidConcurrency(concurrency: unknown): concurrency is number {
+  return (
+    typeof concurrency === "number" &&
+    Number.isInteger(concurrency) &&
+    concurrency >= 1 &&
+    concurrency <= BATCH_MAX_CONCURRENCY
+  );
+}
+
+/**
+ * Validate a batch body: `items` (URLs, or objects with url or html and
+ * optional per-item overrides), shared generate options and `concurrency`.
+ * Each item is checked like a single generate request.
+ */
+export function parseBatchRequest(body: Record<string, unknown>): ParsedBatchRequest {
+  const { items, concurrency: requestedConcurrency, ...shared } = body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: "items must be a non-empty array" };
+  }
+
+  if (items.length > BATCH_MAX_ITEMS) {
+    return { error: `A batch may contain at most ${BATCH_MAX_ITEMS} items` };
+  }
+
+  if (shared.outline !== undefined) {
+    return { error: "outline is not supported in batches" };
+  }
+
+  const concurrency = requestedConcurrency ?? BATCH_CONCURRENCY;
+  if (!isValidConcurrency(concurrency)) {
+    return { error: CONCURRENCY_ERROR };
+  }
+
+  const requests: GenerateRequest[] = [];
+  for (const [index, item] of items.entries()) {
+    const fields: Record<string, unknown> | null =
+      typeof item === "string"
+        ? { url: item }
+        : item && typeof item === "object" && !Array.isArray(item)
+        ? item
+        : null;
+    if (!fields) {
+      return { error: `items[${index}] must be a URL or an object with url or html` };
+    }
+
+    const overrides = Object.fromEntries(
+      Object.entries(fields).filter(([name]) => ITEM_FIELDS.includes(name))
+    );
+    const parsed = parseGenerateRequest({ ...shared, ...overrides });
+    if ("error" in parsed) {
+      return { ...parsed, error: `items[${index}]: ${parsed.error}` };
+    }
+    requests.push(parsed.request);
+  }
+
+  return {
+    batch: { id: crypto.randomUUID(), items: requests, concurrency, storeImages: true },
+  };
+}
+
+// The in-memory cache store is an LRU shared with cached images, so a large
+// batch would evict its own results before they are downloaded. Batches get
+// a store of their own there, kept as long as the jobs that link to them.
+const batchMemoryStore = new MemoryCacheStore(Infinity);
+
+function getBatchStore(): CacheStore {
+  const store = CacheStoreFactory.getStore();
+  return store instanceof MemoryCacheStore ? batchMemoryStore : store;
+}
+
+async function sweepBatchMemoryStore(): Promise<void> {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  const expired = (await batchMemoryStore.list("batches/"))
+    .filter((item) => item.uploadedAt.getTime() < cutoff)
+    .map((item) => item.key);
+  await batchMemoryStore.delete(expired);
+}
+
+const BATCH_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function manifestKey(batchId: string): string {
+  return `batches/${batchId}/manifest.json`;
+}
+
+function itemImageKey(batchId: string, index: number): string {
+  return `batches/${batchId}/items/${index}.json`;
+}
+
+export function batchManifestPath(batchId: string): string {
+  return `/api/batch/${batchId}/manifest`;
+}
+
+export function batchImagePath(batchId: string, index: number): string {
+  return `/api/batch/${batchId}/items/${index}`;
+}
+
+type ItemOutcome =
+  | { status: "completed"; event: Extract<GenerationEvent, { step: "completed" }> }
+  | { status: "failed"; error: string }
+  | { status: "cancelled" };
+
+/**
+ * Run one item through the generate pipeline, coalesced with identical
+ * requests. Resolves at the first final image, so a stale cache hit doesn't
+ * hold a slot while it refreshes in the background.
+ */
+function runItem(
+  request: GenerateRequest,
+  distinctId: string,
+  signal: AbortSignal,
+  onProgress: (event: FlightEvent) => void
+): Promise<ItemOutcome> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const settle = (outcome: ItemOutcome) => {
+      if (settled) return;
+      settled = true;
+      signal.removeEventListener("abort", onAbort);
+      unsubscribe?.();
+      resolve(outcome);
+    };
+    const onAbort = () => settle({ status: "cancelled" });
+
+    const subscription = joinFlight(
+      generationFlightKey(request),
+      createGenerationTask(request, distinctId),
+      {
+        onEvent: (event) => {
+          if (event.step === "completed") {
+            settle(
+              event.image
+                ? { status: "completed", event }
+                : { status: "failed", error: "No image was generated" }
+            );
+          } else if (event.step === "error") {
+            settle({ status: "failed", error: String(event.error ?? "Unknown error") });
+          } else if (event.step !== "partial_image") {
+            onProgress(event);
+          }
+        },
+        onDone: () => settle({ status: "failed", error: "Generation ended without an image" }),
+      }
+    );
+
+    unsubscribe = subscription.unsubscribe;
+    // A follower may have been settled by replayed events already
+    if (settled) {
+      unsubscribe();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Generate every item with at most `concurrency` running at once, storing
+ * each image (unless `storeImages` is off) and finally a manifest in the
+ * cache store. Progress is emitted per item; images are downloaded
+ * separately to keep the stream small.
+ */
+export function createBatchTask(batch: BatchRequest, distinctId: string): FlightTask {
+  return async (emit, signal) => {
+    const store = getBatchStore();
+    if (store === batchMemoryStore) {
+      await sweepBatchMemoryStore();
+    }
+    const createdAt = new Date().toISOString();
+    const total = batch.items.length;
+    const results: BatchManifestItem[] = [];
+    const limit = createConcurrencyLimiter(batch.concurrency);
+    let finished = 0;
+
+    console.log(`📦 Starting batch ${batch.id} with ${total} items (concurrency ${batch.concurrency})`);
+    emit({
+      step: "batch_started",
+      message: `Rendering ${total} items...`,
+      batchId: batch.id,
+      total,
+      concurrency: batch.concurrency,
+    });
+
+    await Promise.all(
+      batch.items.map((request, index) =>
+        limit(async () => {
+          const item: BatchManifestItem = {
+            index,
+            url: request.inputHtml === undefined ? request.url : undefined,
+            provider: request.model,
+            device: request.device.name,
+            status: "cancelled",
+          };
+          results[index] = item;
+          if (signal.aborted) return;
+
+          const startTime = Date.now();
+          const outcome = await runItem(request, distinctId, signal, (event) => {
+            emit({
+              step: "item_progress",
+              index,
+              itemStep: event.step,
+              message: event.message,
+              fromCache: "fromCache" in event ? event.fromCache : undefined,
+            });
+          });
+          item.durationMs = Date.now() - startTime;
+          if (outcome.status === "cancelled") return;
+
+          if (outcome.status === "completed") {
+            const { event } = outcome;
+            try {
+              if (batch.storeImages) {
+                await store.set(
+                  itemImageKey(batch.id, index),
+                  JSON.stringify({ mediaType: event.mediaType, image: event.image }),
+                  "application/json"
+                );
+              }
+              Object.assign(item, {
+                status: "completed",
+                cached: Boolean(event.cached),
+                mediaType: event.mediaType,
+                revisedPrompt: event.revisedPrompt,
+                image: batch.storeImages ? batchImagePath(batch.id, index) : undefined,
+              });
+            } catch (error) {
+              console.error(`❌ Failed to store batch image ${batch.id}/${index}:`, error);
+              Object.assign(item, { status: "failed", error: "Failed to store the image" });
+            }
+          } else {
+            Object.assign(item, { status: "failed", error: outcome.error });
+          }
+
+          finished++;
+          emit({
+            step: item.status === "completed" ? "item_completed" : "item_failed",
+            message: `${finished}/${total} finished`,
+            ...item,
+          });
+        })
+      )
+    );
+
+    const count = (status: BatchManifestItem["status"]) =>
+      results.filter((item) => item.status === status).length;
+    const manifest: BatchManifest = {
+      id: batch.id,
+      createdAt,
+      completedAt: new Date().toISOString(),
+      total,
+      succeeded: count("completed"),
+      failed: count("failed"),
+      cancelled: count("cancelled"),
+      items: results,
+    };
+    await store.set(manifestKey(batch.id), JSON.stringify(manifest), "application/json");
+
+    console.log(
+      `✅ Batch ${batch.id} finished: ${manifest.succeeded} succeeded, ${manifest.failed} failed, ${manifest.cancelled} cancelled`
+    );
+    emit({
+      step: "batch_completed",
+      message: `${manifest.succeeded} of ${total} images generated`,
+      batchId: batch.id,
+      succeeded: manifest.succeeded,
+      failed: manifest.failed,
+      cancelled: manifest.cancelled,
+      manifestUrl: batchManifestPath(batch.id),
+    });
+  };
+}
+
+export async function getBatchManifest(batchId: string): Promise<BatchManifest | null> {
+  if (!BATCH_ID_PATTERN.test(batchId)) return null;
+  const stored = await getBatchStore().get(manifestKey(batchId));
+  return stored ? JSON.parse(stored.body) : null;
+}
+
+export async function getBatchImage(
+  batchId: string,
+  index: number
+): Promise<{ mediaType: string; image: Buffer } | null> {
+  if (!BATCH_ID_PATTERN.test(batchId) || !Number.isInteger(index) || index < 0) {
+    return null;
+  }
+  const stored = await getBatchStore().get(itemImageKey(batchId, index));
+  if (!stored) return null;
+
+  const { mediaType, image } = JSON.parse(stored.body);
+  return { mediaType, image: Buffer.from(image, "base64") };
+}
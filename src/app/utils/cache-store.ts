@@ -0,0 +1,260 @@
+import { put, head, list, del } from '@vercel/blob';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface CacheStoreValue {
+  body: string;
+  // Public URL of the stored object, when the backend has one
+  url?: string;
+}
+
+export interface CacheStoreItem {
+  key: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+/**
+ * Key-value storage for cache entries. Keys are slash-separated paths such
+ * as `image-cache/<provider>/<host>/<name>.json`.
+ */
+export abstract class CacheStore {
+  abstract readonly name: string;
+
+  abstract get(key: string): Promise<CacheStoreValue | null>;
+  abstract set(key: string, body: string, contentType: string): Promise<void>;
+  abstract delete(keys: string[]): Promise<void>;
+  abstract list(prefix: string): Promise<CacheStoreItem[]>;
+}
+
+/**
+ * Public base URL of the blob store a read-write token belongs to. The
+ * token has the form `vercel_blob_rw_<storeId>_<secret>`.
+ */
+function blobPublicBaseUrl(token?: string): string | undefined {
+  const [, , , storeId] = token?.split('_') ?? [];
+  return storeId ? `https://${storeId.toLowerCase()}.public.blob.vercel-storage.com` : undefined;
+}
+
+/**
+ * Vercel Blob storage. A read is a single GET of the public URL, built from
+ * BLOB_PUBLIC_BASE_URL or the store id in the token; only without either is
+ * the URL looked up with head() first.
+ */
+export class VercelBlobCacheStore extends CacheStore {
+  readonly name = 'blob';
+
+  constructor(private readonly publicBaseUrl?: string) {
+    super();
+  }
+
+  private async urlFor(key: string): Promise<string | null> {
+    if (this.publicBaseUrl) {
+      return `${this.publicBaseUrl.replace(/\/$/, '')}/${key}`;
+    }
+    try {
+      return (await head(key)).url;
+    } catch {
+      return null;
+    }
+  }
+
+  async get(key: string): Promise<CacheStoreValue | null> {
+    const url = await this.urlFor(key);
+    if (!url) return null;
+
+    const response = await fetch(url);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Blob read failed: ${response.status} ${response.statusText}`);
+    }
+    return { body: await response.text(), url };
+  }
+
+  async set(key: string, body: string, contentType: string): Promise<void> {
+    await put(key, body, {
+      contentType,
+      access: 'public',
+      addRandomSuffix: false, // Use exact key for consistency
+      allowOverwrite: true, // Allow overwriting existing blobs
+    });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await del(keys);
+    }
+  }
+
+  async list(prefix: string): Promise<CacheStoreItem[]> {
+    const items: CacheStoreItem[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix, cursor });
+      for (const blob of page.blobs) {
+        items.push({ key: blob.pathname, size: blob.size, uploadedAt: blob.uploadedAt });
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return items;
+  }
+}
+
+/**
+ * Local directory storage for development and self-hosting
+ */
+export class FilesystemCacheStore extends CacheStore {
+  readonly name = 'filesystem';
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  private pathFor(key: string): string {
+    const root = path.resolve(this.directory);
+    const resolved = path.resolve(root, key);
+    // Keys come from URLs, so never let one point outside the cache directory
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Cache key escapes cache directory: ${key}`);
+    }
+    return resolved;
+  }
+
+  async get(key: string): Promise<CacheStoreValue | null> {
+    try {
+      return { body: await fs.readFile(this.pathFor(key), 'utf8') };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, body: string): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so readers never see a partial entry
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, body, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => fs.rm(this.pathFor(key), { force: true })));
+  }
+
+  async list(prefix: string): Promise<CacheStoreItem[]> {
+    const root = path.resolve(this.directory);
+    const items: CacheStoreItem[] = [];
+
+    const walk = async (directory: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (!entry.name.endsWith('.tmp')) {
+          const key = path.relative(root, fullPath).split(path.sep).join('/');
+          if (key.startsWith(prefix)) {
+            const stats = await fs.stat(fullPath);
+            items.push({ key, size: stats.size, uploadedAt: stats.mtime });
+          }
+        }
+      }
+    };
+
+    await walk(root);
+    return items;
+  }
+}
+
+interface MemoryEntry {
+  body: string;
+  uploadedAt: Date;
+}
+
+/**
+ * Per-process LRU cache, bounded by entry count. Contents are lost on restart.
+ */
+export class MemoryCacheStore extends CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries: number = 100) {
+    super();
+  }
+
+  async get(key: string): Promise<CacheStoreValue | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { body: entry.body };
+  }
+
+  async set(key: string, body: string): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { body, uploadedAt: new Date() });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  async list(prefix: string): Promise<CacheStoreItem[]> {
+    return Array.from(this.entries.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, entry]) => ({
+        key,
+        size: Buffer.byteLength(entry.body),
+        uploadedAt: entry.uploadedAt,
+      }));
+  }
+}
+
+export class CacheStoreFactory {
+  private static stores = new Map<string, CacheStore>();
+
+  static {
+    this.register(
+      new VercelBlobCacheStore(
+        process.env.BLOB_PUBLIC_BASE_URL || blobPublicBaseUrl(process.env.BLOB_READ_WRITE_TOKEN)
+      )
+    );
+    this.register(new FilesystemCacheStore(process.env.CACHE_DIR || '.cache'));
+    this.register(new MemoryCacheStore(Number(process.env.CACHE_MEMORY_MAX_ENTRIES) || undefined));
+  }
+
+  static register(store: CacheStore): void {
+    this.stores.set(store.name, store);
+  }
+
+  /**
+   * The store selected by CACHE_STORE. Defaults to Vercel Blob when a blob
+   * token is configured and to the in-memory store otherwise.
+   */
+  static getStore(name?: string): CacheStore {
+    const selected =
+      name || process.env.CACHE_STORE || (process.env.BLOB_READ_WRITE_TOKEN ? 'blob' : 'memory');
+    const store = this.stores.get(selected);
+    if (!store) {
+      throw new Error(
+        `Unknown cache store: ${selected} (available: ${Array.from(this.stores.keys()).join(', ')})`
+      );
+    }
+    return store;
+  }
+}
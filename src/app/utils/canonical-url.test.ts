@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  canonicalizeUrl,
+  canonicalUrlRulesFromEnv,
+  tryCanonicalizeUrl,
+} from "./canonical-url";
+
+describe("canonicalizeUrl", () => {
+  it("adds a protocol and lowercases the host", () => {
+    expect(canonicalizeUrl("Example.COM/Path")).toBe("https://example.com/Path");
+  });
+
+  it("converts IDN hosts to punycode", () => {
+    expect(canonicalizeUrl("https://Bücher.example/")).toBe("https://xn--bcher-kva.example/");
+  });
+
+  it("lowercases punycode hosts", () => {
+    expect(canonicalizeUrl("https://XN--Bcher-KVA.Example/Path")).toBe(
+      "https://xn--bcher-kva.example/Path"
+    );
+  });
+
+  it("drops default ports and a trailing dot on the host", () => {
+    expect(canonicalizeUrl("https://example.com.:443/")).toBe("https://example.com/");
+  });
+
+  it("strips tracking parameters by name and prefix", () => {
+    expect(
+      canonicalizeUrl("https://example.com/?utm_source=x&id=1&fbclid=abc&UTM_Medium=y&pk_campaign=z")
+    ).toBe("https://example.com/?id=1");
+  });
+
+  it("removes the query entirely when only tracking parameters are left", () => {
+    expect(canonicalizeUrl("https://example.com/a?gclid=1&utm_term=2")).toBe(
+      "https://example.com/a"
+    );
+  });
+
+  it("sorts parameters and keeps repeated ones in order", () => {
+    expect(canonicalizeUrl("https://example.com/?b=2&a=1&b=1")).toBe(
+      "https://example.com/?a=1&b=2&b=1"
+    );
+  });
+
+  it("keeps the original encoding of kept parameters", () => {
+    expect(canonicalizeUrl("https://example.com/?q&s=a%20b&t=a+b&utm_source=x")).toBe(
+      "https://example.com/?q&s=a%20b&t=a+b"
+    );
+  });
+
+  it("matches encoded parameter names", () => {
+    expect(canonicalizeUrl("https://example.com/?utm%5Fsource=x&id=1")).toBe(
+      "https://example.com/?id=1"
+    );
+  });
+
+  it("drops fragments unless told not to", () => {
+    expect(canonicalizeUrl("https://example.com/page#section")).toBe(
+      "https://example.com/page"
+    );
+    expect(canonicalizeUrl("https://example.com/page#section", { dropFragment: false })).toBe(
+      "https://example.com/page#section"
+    );
+  });
+
+  it("keeps trailing slashes by default", () => {
+    expect(canonicalizeUrl("https://example.com/about/")).toBe("https://example.com/about/");
+  });
+
+  it("strips trailing slashes when configured, except on the root path", () => {
+    const rules = { stripTrailingSlash: true };
+    expect(canonicalizeUrl("https://example.com/about//", rules)).toBe(
+      "https://example.com/about"
+    );
+    expect(canonicalizeUrl("https://example.com/", rules)).toBe("https://example.com/");
+  });
+
+  it("leaves www hosts alone unless configured", () => {
+    expect(canonicalizeUrl("https://www.example.com/")).toBe("https://www.example.com/");
+    expect(canonicalizeUrl("https://www.example.com/", { stripWww: true })).toBe(
+      "https://example.com/"
+    );
+  });
+
+  it("throws on input that isn't a URL", () => {
+    expect(() => canonicalizeUrl("http://")).toThrow();
+  });
+});
+
+describe("tryCanonicalizeUrl", () => {
+  it("returns the trimmed input when it can't be parsed", () => {
+    expect(tryCanonicalizeUrl("  http://  ")).toBe("http://");
+  });
+});
+
+describe("canonicalUrlRulesFromEnv", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("uses the defaults when nothing is configured", () => {
+    delete process.env.CANONICAL_URL_STRIP_PARAMS;
+    delete process.env.CANONICAL_URL_STRIP_WWW;
+    const rules = canonicalUrlRulesFromEnv();
+    expect(rules.stripWww).toBe(false);
+    expect(canonicalizeUrl("https://www.example.com/?ref=x", rules)).toBe(
+      "https://www.example.com/?ref=x"
+    );
+  });
+
+  it("adds exact names and * prefixes from CANONICAL_URL_STRIP_PARAMS", () => {
+    process.env.CANONICAL_URL_STRIP_PARAMS = " Ref , campaign_* ";
+    const rules = canonicalUrlRulesFromEnv();
+    expect(
+      canonicalizeUrl("https://example.com/?ref=x&referrer=y&campaign_id=1&campaign=2", rules)
+    ).toBe("https://example.com/?campaign=2&referrer=y");
+  });
+
+  it("folds www hosts when CANONICAL_URL_STRIP_WWW is true", () => {
+    process.env.CANONICAL_URL_STRIP_WWW = "true";
+    expect(canonicalizeUrl("https://www.example.com/", canonicalUrlRulesFromEnv())).toBe(
+      "https://example.com/"
+    );
+  });
+});
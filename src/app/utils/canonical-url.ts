@@ -0,0 +1,160 @@
+// Shared by the API routes, the cache and the client, so keep this free of Node imports
+
+export interface CanonicalUrlRules {
+  // Scheme added when the input has none
+  defaultProtocol: "https:" | "http:";
+  // Query parameters removed by exact (case-insensitive) name
+  stripParams: string[];
+  // Query parameters removed by name prefix, e.g. "utm_"
+  stripParamPrefixes: string[];
+  sortParams: boolean;
+  dropFragment: boolean;
+  // "www.example.com" -> "example.com"; off by default since some sites differ
+  stripWww: boolean;
+  // "/about/" -> "/about"; the root path always keeps its slash
+  stripTrailingSlash: boolean;
+}
+
+export const DEFAULT_CANONICAL_URL_RULES: CanonicalUrlRules = {
+  defaultProtocol: "https:",
+  stripParams: [
+    "gclid",
+    "gclsrc",
+    "dclid",
+    "gbraid",
+    "wbraid",
+    "fbclid",
+    "msclkid",
+    "yclid",
+    "twclid",
+    "ttclid",
+    "li_fat_id",
+    "igshid",
+    "mc_cid",
+    "mc_eid",
+    "_ga",
+    "_gl",
+    "_hsenc",
+    "_hsmi",
+    "mkt_tok",
+    "oly_anon_id",
+    "oly_enc_id",
+    "vero_id",
+    "ref_src",
+  ],
+  stripParamPrefixes: ["utm_", "pk_", "hsa_"],
+  sortParams: true,
+  dropFragment: true,
+  stripWww: false,
+  stripTrailingSlash: false,
+};
+
+/**
+ * Rules for server-side canonicalization. CANONICAL_URL_STRIP_PARAMS adds
+ * comma-separated parameter names (a trailing "*" makes it a prefix) and
+ * CANONICAL_URL_STRIP_WWW=true folds "www." hosts. In the browser these
+ * variables are undefined and the defaults apply.
+ */
+export function canonicalUrlRulesFromEnv(): CanonicalUrlRules {
+  const extra = (process.env.CANONICAL_URL_STRIP_PARAMS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    ...DEFAULT_CANONICAL_URL_RULES,
+    stripParams: [
+      ...DEFAULT_CANONICAL_URL_RULES.stripParams,
+      ...extra.filter((name) => !name.endsWith("*")),
+    ],
+    stripParamPrefixes: [
+      ...DEFAULT_CANONICAL_URL_RULES.stripParamPrefixes,
+      ...extra.filter((name) => name.endsWith("*")).map((name) => name.slice(0, -1)),
+    ],
+    stripWww: process.env.CANONICAL_URL_STRIP_WWW === "true",
+  };
+}
+
+/**
+ * Normalize a URL so equivalent addresses share one cache entry. The host is
+ * lowercased and IDNs are converted to punycode (both by the URL parser),
+ * default ports and fragments are dropped, tracking parameters are removed
+ * and the remaining parameters are sorted. Throws on input that isn't a URL.
+ */
+export function canonicalizeUrl(
+  input: string,
+  rules: Partial<CanonicalUrlRules> = {}
+): string {
+  const config: CanonicalUrlRules = { ...DEFAULT_CANONICAL_URL_RULES, ...rules };
+  const trimmed = input.trim();
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `${config.defaultProtocol}//${trimmed}`;
+
+  const url = new URL(withProtocol);
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return url.toString();
+  }
+
+  url.hostname = url.hostname.replace(/\.$/, "");
+  if (config.stripWww && url.hostname.startsWith("www.")) {
+    url.hostname = url.hostname.slice(4);
+  }
+
+  if (config.dropFragment) {
+    url.hash = "";
+  }
+
+  // The canonical URL is also the one fetched, so kept parameters keep
+  // their original encoding ("?q" stays "?q", "%20" doesn't become "+")
+  const stripParams = new Set(config.stripParams.map((name) => name.toLowerCase()));
+  const stripPrefixes = config.stripParamPrefixes.map((prefix) => prefix.toLowerCase());
+  const params = url.search
+    .slice(1)
+    .split("&")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => ({ segment, name: decodeParamName(segment) }))
+    .filter(({ name }) => {
+      const lower = name.toLowerCase();
+      return (
+        !stripParams.has(lower) &&
+        !stripPrefixes.some((prefix) => lower.startsWith(prefix))
+      );
+    });
+  if (config.sortParams) {
+    // Stable sort by name keeps repeated parameters in their original order
+    params.sort(({ name: a }, { name: b }) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+  url.search = params.map(({ segment }) => segment).join("&");
+
+  if (config.stripTrailingSlash && url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  return url.toString();
+}
+
+// The decoded name of a raw "name=value" query segment
+function decodeParamName(segment: string): string {
+  const name = segment.split("=", 1)[0].replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Like canonicalizeUrl, but returns the trimmed input unchanged when it
+ * can't be parsed. Suited to user input that is validated later.
+ */
+export function tryCanonicalizeUrl(
+  input: string,
+  rules?: Partial<CanonicalUrlRules>
+): string {
+  try {
+    return canonicalizeUrl(input, rules);
+  } catch {
+    return input.trim();
+  }
+}
@@ -1,9 +1,54 @@
 import { posthogOpenAI } from "../lib/openai";
+import {
+  chunkHTML,
+  getMaxChunks,
+  needsChunking,
+  type ChunkingInfo,
+} from "./token-budget";
+
+export interface CleanHTMLOptions {
+  onChunking?: (info: ChunkingInfo) => void;
+  signal?: AbortSignal;
+}
 
 export async function cleanHTML(
   htmlContent: string,
   maxOutputTokens: number = 8000,
-  distinctId: string = 'anonymous'
+  distinctId: string = 'anonymous',
+  options: CleanHTMLOptions = {}
+): Promise<string> {
+  if (!needsChunking(htmlContent)) {
+    return cleanSingleHTML(htmlContent, maxOutputTokens, distinctId, options.signal);
+  }
+
+  // Page is larger than the model context: clean each section separately
+  // with a share of the output budget and stitch the results together
+  const allChunks = chunkHTML(htmlContent);
+  const chunks = allChunks.slice(0, getMaxChunks());
+  const info: ChunkingInfo = {
+    estimatedTokens: allChunks.reduce((sum, c) => sum + c.estimatedTokens, 0),
+    maxChunkTokens: Math.max(...chunks.map((c) => c.estimatedTokens)),
+    chunkCount: chunks.length,
+    droppedChunks: allChunks.length - chunks.length,
+  };
+  console.log("[clean-html] Chunking: ", info);
+  options.onChunking?.(info);
+
+  const perChunkTokens = Math.ceil(maxOutputTokens / chunks.length);
+  const cleanedChunks = await Promise.all(
+    chunks.map((chunk) =>
+      cleanSingleHTML(chunk.html, perChunkTokens, distinctId, options.signal)
+    )
+  );
+
+  return cleanedChunks.join("\n");
+}
+
+async function cleanSingleHTML(
+  htmlContent: string,
+  maxOutputTokens: number,
+  distinctId: string,
+  signal?: AbortSignal
 ): Promise<string> {
   try {
     const response = await posthogOpenAI.chat.completions.create({
@@ -55,7 +100,7 @@ Output clean, well-structured HTML that captures the complete visual layout.
           content: htmlContent
         }
       ]
-    });
+    }, { signal });
 
     const text = response.choices[0]?.message?.content || "";
 
@@ -71,6 +116,7 @@ Output clean, well-structured HTML that captures the complete visual layout.
 
     return text.trim();
   } catch (error) {
+    signal?.throwIfAborted();
     console.error("Error cleaning HTML:", error);
     // Return a fallback HTML if cleaning fails
     return `<html><body><h1>Website Content</h1><p>Error processing HTML: ${
@@ -1,4 +1,22 @@
 import { posthogOpenAI } from "../lib/openai";
+import {
+  chunkHTML,
+  fitToLength,
+  getMaxChunks,
+  needsChunking,
+  type ChunkingInfo,
+  type HTMLChunk,
+} from "./token-budget";
+import { formatStyleHints, type StyleSummary } from "./extract-styles";
+
+export interface ImagePromptOptions {
+  // Maximum prompt length accepted by the image provider, in characters
+  maxPromptLength?: number;
+  onChunking?: (info: ChunkingInfo) => void;
+  // Colors and fonts measured from the page's CSS
+  styles?: StyleSummary;
+  signal?: AbortSignal;
+}
 
 export async function describeHTML(
   htmlContent: string,
@@ -55,9 +73,16 @@ Maximum ${maxOutputTokens} tokens. Be concise but visually descriptive.
 
 export async function generateImagePromptFromHTML(
   htmlContent: string,
-  distinctId: string = "anonymous"
+  distinctId: string = "anonymous",
+  options: ImagePromptOptions = {}
 ): Promise<string> {
+  const maxPromptLength = options.maxPromptLength ?? Infinity;
+
   try {
+    if (needsChunking(htmlContent)) {
+      return await generateImagePromptFromChunks(htmlContent, options);
+    }
+
     const response = await posthogOpenAI.chat.completions.create({
       model: "gpt-5-nano",
       reasoning_effort: "low",
@@ -93,14 +118,14 @@ Analyze the HTML and create a detailed prompt for an AI image generator to recre
 <output-format>
 Write a single flowing paragraph that an image AI can use to generate the website layout.
 Start with: "A website design with..."
-</output-format>`,
+</output-format>${measuredStyles(options.styles)}${promptLengthConstraint(options.maxPromptLength)}`,
         },
         {
           role: "user",
           content: htmlContent,
         },
       ],
-    });
+    }, { signal: options.signal });
 
     const text = response.choices[0]?.message?.content || "";
 
@@ -113,11 +138,181 @@ Start with: "A website design with..."
       return `A website design with a modern layout featuring a header navigation bar at the top, a main content area with text and sections, and a footer at the bottom. The page has a clean, professional appearance with structured content, headings, paragraphs, and standard web elements arranged in a typical website layout.`;
     }
 
-    return text.trim();
+    return fitToLength(text.trim(), maxPromptLength);
   } catch (error) {
+    // Cancelled requests shouldn't go on with the fallback prompt
+    options.signal?.throwIfAborted();
     console.error("Error generating image prompt from HTML:", error);
 
     // Return a fallback prompt if generation fails
     return `A website design with a modern layout featuring a header navigation bar at the top, a main content area with text and sections, and a footer at the bottom. The page has a clean, professional appearance with structured content, headings, paragraphs, and standard web elements arranged in a typical website layout.`;
   }
 }
+
+function measuredStyles(styles?: StyleSummary): string {
+  const hints = styles ? formatStyleHints(styles) : "";
+  if (!hints) return "";
+  return `
+
+<measured-styles>
+These values were read from the site's stylesheets. Use them instead of guessing colors and fonts from the markup.
+${hints}
+</measured-styles>`;
+}
+
+function promptLengthConstraint(maxPromptLength?: number): string {
+  if (!maxPromptLength || !Number.isFinite(maxPromptLength)) return "";
+  return `
+
+<constraints>
+Keep the entire prompt under ${maxPromptLength} characters.
+</constraints>`;
+}
+
+/**
+ * Map-reduce path for pages larger than the model context: describe each
+ * section-aware chunk, then merge the descriptions into a single prompt
+ */
+async function generateImagePromptFromChunks(
+  htmlContent: string,
+  options: ImagePromptOptions
+): Promise<string> {
+  const allChunks = chunkHTML(htmlContent);
+  const chunks = allChunks.slice(0, getMaxChunks());
+  const info: ChunkingInfo = {
+    estimatedTokens: allChunks.reduce((sum, c) => sum + c.estimatedTokens, 0),
+    maxChunkTokens: Math.max(...chunks.map((c) => c.estimatedTokens)),
+    chunkCount: chunks.length,
+    droppedChunks: allChunks.length - chunks.length,
+  };
+  console.log("[describe-html] Chunking: ", info);
+  options.onChunking?.(info);
+
+  const descriptions = await Promise.all(
+    chunks.map((chunk) => describeHTMLChunk(chunk, chunks.length, options.signal))
+  );
+
+  return mergeChunkDescriptions(
+    descriptions.filter((description) => description.length > 0),
+    options.maxPromptLength ?? Infinity,
+    options.styles,
+    options.signal
+  );
+}
+
+async function describeHTMLChunk(
+  chunk: HTMLChunk,
+  totalChunks: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const position =
+    chunk.index === 0
+      ? "the top of the page"
+      : chunk.index === totalChunks - 1
+      ? "the bottom of the page"
+      : "the middle of the page";
+  const sections =
+    chunk.sections.length > 0
+      ? ` It contains these landmarks: ${chunk.sections.join(", ")}.`
+      : "";
+
+  try {
+    const response = await posthogOpenAI.chat.completions.create({
+      model: "gpt-5-nano",
+      reasoning_effort: "low",
+      messages: [
+        {
+          role: "system",
+          content: `<role>
+You are a visual design analyzer describing one part of a larger website.
+</role>
+
+<task>
+This HTML is part ${chunk.index + 1} of ${totalChunks}, from ${position}.${sections}
+Describe what this part looks like when rendered, so it can later be merged with the other parts.
+</task>
+
+<instructions>
+- Describe layout, colors, typography, spacing and visual hierarchy
+- Include actual visible text content, buttons and links
+- Do not describe parts of the page that are not in this HTML
+</instructions>
+
+<output-format>
+One concise paragraph of at most 150 words.
+</output-format>`,
+        },
+        {
+          role: "user",
+          content: chunk.html,
+        },
+      ],
+    }, { signal });
+
+    return response.choices[0]?.message?.content?.trim() || "";
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error(`Error describing HTML chunk ${chunk.index + 1}:`, error);
+    return "";
+  }
+}
+
+async function mergeChunkDescriptions(
+  descriptions: string[],
+  maxPromptLength: number,
+  styles?: StyleSummary,
+  signal?: AbortSignal
+): Promise<string> {
+  const combined = descriptions
+    .map((description, index) => `Part ${index + 1}: ${description}`)
+    .join("\n\n");
+
+  try {
+    const response = await posthogOpenAI.chat.completions.create({
+      model: "gpt-5-nano",
+      reasoning_effort: "low",
+      messages: [
+        {
+          role: "system",
+          content: `<role>
+You are an expert at creating detailed image generation prompts based on website designs.
+</role>
+
+<task>
+Merge the ordered descriptions of a website's parts, from top to bottom, into one prompt for an AI image generator to recreate the whole page.
+</task>
+
+<instructions>
+1. Start with the overall layout and color scheme
+2. Keep the header/navigation first and the footer last
+3. Keep actual visible text content where space allows
+4. Drop repeated details that appear in several parts
+</instructions>
+
+<output-format>
+Write a single flowing paragraph that an image AI can use to generate the website layout.
+Start with: "A website design with..."
+</output-format>${measuredStyles(styles)}${promptLengthConstraint(maxPromptLength)}`,
+        },
+        {
+          role: "user",
+          content: combined,
+        },
+      ],
+    }, { signal });
+
+    const text = response.choices[0]?.message?.content?.trim() || "";
+    if (text) {
+      return fitToLength(text, maxPromptLength);
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Error merging chunk descriptions:", error);
+  }
+
+  // Fall back to the concatenated part descriptions
+  return fitToLength(
+    `A website design with the following parts from top to bottom. ${descriptions.join(" ")}`,
+    maxPromptLength
+  );
+}
@@ -0,0 +1,60 @@
+// Shared by the API routes and the client, so keep this free of Node imports
+
+export type DeviceName = "desktop" | "tablet" | "mobile";
+
+export interface DeviceProfile {
+  name: DeviceName;
+  label: string;
+  userAgent: string;
+  viewport: {
+    width: number;
+    height: number;
+    isMobile: boolean;
+  };
+  imageSize: `${number}x${number}`;
+  // Appended to "Create a detailed image of the website"
+  promptHint: string;
+}
+
+export const DEFAULT_DEVICE: DeviceName = "desktop";
+
+export const DEVICE_PROFILES: Record<DeviceName, DeviceProfile> = {
+  desktop: {
+    name: "desktop",
+    label: "Desktop",
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    viewport: { width: 1440, height: 900, isMobile: false },
+    imageSize: "1024x1536",
+    // The original desktop prompt, so existing behavior is unchanged
+    promptHint: "",
+  },
+  tablet: {
+    name: "tablet",
+    label: "Tablet",
+    userAgent:
+      "Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+    viewport: { width: 820, height: 1180, isMobile: true },
+    imageSize: "1024x1536",
+    promptHint:
+      "as rendered on a portrait tablet about 820 pixels wide, with a responsive layout that uses two columns at most and touch-sized navigation",
+  },
+  mobile: {
+    name: "mobile",
+    label: "Phone",
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1",
+    viewport: { width: 390, height: 844, isMobile: true },
+    imageSize: "1024x1536",
+    promptHint:
+      "as rendered on a phone about 390 pixels wide, with a single-column mobile layout, a compact header with a hamburger menu, stacked sections and full-width buttons",
+  },
+};
+
+export function isDeviceName(value: unknown): value is DeviceName {
+  return typeof value === "string" && Object.hasOwn(DEVICE_PROFILES, value);
+}
+
+export function getDeviceProfile(name: DeviceName = DEFAULT_DEVICE): DeviceProfile {
+  return DEVICE_PROFILES[name];
+}
@@ -0,0 +1,13 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * Analytics id for a request: the PostHog cookie, then the
+ * `x-distinct-id` header, else a fresh anonymous id
+ */
+export function distinctIdFor(request: NextRequest): string {
+  return (
+    request.cookies.get("ph_posthog")?.value ||
+    request.headers.get("x-distinct-id") ||
+    `anon_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+  );
+}
@@ -0,0 +1,470 @@
+import { parse } from "node-html-parser";
+import type { HttpFetchResult } from "./http-fetch";
+import {
+  DEFAULT_HEADERS,
+  HtmlFetcherFactory,
+  type HtmlFetcher,
+  type ResourceFetchOptions,
+} from "./html-fetchers";
+
+const DEFAULT_MAX_STYLESHEETS = 4;
+const DEFAULT_STYLESHEET_MAX_BYTES = 256 * 1024;
+const MAX_INLINE_CSS_CHARS = 200000;
+
+export interface StyleExtractionOptions {
+  // Base URL for resolving relative stylesheet links (usually the final URL)
+  baseUrl?: string;
+  maxStylesheets?: number;
+  maxBytesPerStylesheet?: number;
+  // HTML fetcher chain the page was fetched with; stylesheets take the same
+  // route, and are skipped when every fetcher only reads local copies
+  fetchers?: string[];
+  signal?: AbortSignal;
+}
+
+export interface StyleSource {
+  url: string;
+  byteCount: number;
+  truncated: boolean;
+}
+
+export interface StyleSummary {
+  background: string | null;
+  text: string | null;
+  accent: string | null;
+  // Most used colors overall, most frequent first
+  palette: string[];
+  fontFamilies: string[];
+  stylesheets: StyleSource[];
+  failedStylesheets: string[];
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Selectors whose colors define the page as a whole
+const ROOT_SELECTOR = /(^|[\s,>])(html|body|:root|main)(?=$|[\s,.:#>[{])/i;
+// Selectors that usually carry the brand accent
+const ACCENT_SELECTOR = /(^|[\s,>])a(?=$|[\s,.:#>[])|button|btn|primary|brand|accent|cta|link/i;
+
+const GENERIC_FONTS = new Set([
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "ui-sans-serif",
+  "ui-serif",
+  "ui-monospace",
+  "ui-rounded",
+  "-apple-system",
+  "blinkmacsystemfont",
+  "inherit",
+  "initial",
+  "unset",
+  "revert",
+  "emoji",
+  "math",
+]);
+
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+  red: "#ff0000",
+  green: "#008000",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  orange: "#ffa500",
+  purple: "#800080",
+  gray: "#808080",
+  grey: "#808080",
+  silver: "#c0c0c0",
+  navy: "#000080",
+  teal: "#008080",
+  maroon: "#800000",
+  whitesmoke: "#f5f5f5",
+};
+
+function getMaxStylesheets(maxStylesheets?: number): number {
+  if (maxStylesheets !== undefined && maxStylesheets >= 0) return maxStylesheets;
+  const configured = Number(process.env.STYLE_MAX_STYLESHEETS);
+  return Number.isInteger(configured) && configured >= 0
+    ? configured
+    : DEFAULT_MAX_STYLESHEETS;
+}
+
+function getStylesheetMaxBytes(maxBytes?: number): number {
+  if (maxBytes && maxBytes > 0) return maxBytes;
+  const configured = Number(process.env.STYLE_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_STYLESHEET_MAX_BYTES;
+}
+
+/**
+ * Fetch the page's linked stylesheets and inline styles and summarize the
+ * colors and fonts actually declared in CSS. Must run on the raw HTML,
+ * before pre-cleaning removes `<link>` elements.
+ */
+export async function extractStyles(
+  htmlContent: string,
+  options: StyleExtractionOptions = {}
+): Promise<StyleSummary> {
+  const root = parse(htmlContent, { lowerCaseTagName: true });
+
+  const inlineCss = [
+    ...root.querySelectorAll("style").map((style) => style.rawText),
+    // Inline style attributes, wrapped so they parse like rules
+    ...root
+      .querySelectorAll("[style]")
+      .map(
+        (element) =>
+          `${element.rawTagName} { ${element.getAttribute("style") || ""} }`
+      ),
+  ]
+    .join("\n")
+    .substring(0, MAX_INLINE_CSS_CHARS);
+
+  const linkedHrefs = root
+    .querySelectorAll("link")
+    .filter((link) =>
+      (link.getAttribute("rel") || "").toLowerCase().split(/\s+/).includes("stylesheet")
+    )
+    .map((link) => link.getAttribute("href"))
+    .filter((href): href is string => !!href)
+    .map((href) => {
+      try {
+        return new URL(href, options.baseUrl).toString();
+      } catch {
+        return null;
+      }
+    })
+    .filter((href): href is string => !!href?.startsWith("http"))
+    .slice(0, getMaxStylesheets(options.maxStylesheets));
+
+  const resourceFetchers = HtmlFetcherFactory.resolveChain(options.fetchers).filter(
+    (fetcher) => fetcher.fetchResource
+  );
+  if (linkedHrefs.length > 0 && resourceFetchers.length === 0) {
+    console.log(
+      `[extract-styles] Skipping ${linkedHrefs.length} linked stylesheets: no selected fetcher reaches the network`
+    );
+  }
+  const hrefs = resourceFetchers.length > 0 ? linkedHrefs : [];
+
+  const maxBytes = getStylesheetMaxBytes(options.maxBytesPerStylesheet);
+  const stylesheets: StyleSource[] = [];
+  const failedStylesheets: string[] = [];
+
+  const fetched = await Promise.all(
+    hrefs.map(async (href) => {
+      try {
+        const result = await fetchStylesheet(href, resourceFetchers, {
+          headers: { ...DEFAULT_HEADERS, Accept: "text/css,*/*;q=0.1" },
+          maxBytes,
+          allowedContentTypes: ["text/css"],
+          signal: options.signal,
+        });
+        stylesheets.push({
+          url: result.finalUrl,
+          byteCount: result.byteCount,
+          truncated: result.truncated,
+        });
+        return result.body;
+      } catch (error) {
+        console.warn(
+          `⚠️ Failed to fetch stylesheet ${href}:`,
+          error instanceof Error ? error.message : error
+        );
+        failedStylesheets.push(href);
+        return "";
+      }
+    })
+  );
+
+  // Failed stylesheets are skipped, but a cancelled request must not be
+  options.signal?.throwIfAborted();
+
+  const summary = summarizeCss([...fetched, inlineCss].join("\n"));
+  const result: StyleSummary = { ...summary, stylesheets, failedStylesheets };
+
+  console.log("[extract-styles] Summary: ", {
+    background: result.background,
+    text: result.text,
+    accent: result.accent,
+    fontFamilies: result.fontFamilies,
+    stylesheets: stylesheets.length,
+    failed: failedStylesheets.length,
+  });
+
+  return result;
+}
+
+/**
+ * Try each fetcher in chain order, like the page fetch does
+ */
+async function fetchStylesheet(
+  href: string,
+  fetchers: HtmlFetcher[],
+  options: ResourceFetchOptions
+): Promise<HttpFetchResult> {
+  let lastError: unknown;
+  for (const fetcher of fetchers) {
+    try {
+      return await fetcher.fetchResource!(href, options);
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Score every color and font declaration in a stylesheet. Declarations on
+ * root selectors weigh more for background and text; saturated colors on
+ * links and buttons decide the accent.
+ */
+export function summarizeCss(
+  css: string
+): Omit<StyleSummary, "stylesheets" | "failedStylesheets"> {
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  const variables = new Map<string, string>();
+  const rules: Array<{ selector: string; declarations: [string, string][] }> =
+    [];
+
+  // Innermost `selector { declarations }` pairs; @media wrappers fall away
+  const rulePattern = /([^{}]+)\{([^{}]*)\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = rulePattern.exec(withoutComments))) {
+    const selector = match[1].trim();
+    if (selector.startsWith("@font-face") || /^(from|to|\d+%)/.test(selector)) {
+      continue;
+    }
+    const declarations = match[2]
+      .split(";")
+      .map((declaration) => {
+        const colon = declaration.indexOf(":");
+        return [
+          declaration.substring(0, colon).trim().toLowerCase(),
+          declaration.substring(colon + 1).replace(/!important/i, "").trim(),
+        ] as [string, string];
+      })
+      .filter(([property, value]) => property && value);
+
+    for (const [property, value] of declarations) {
+      if (property.startsWith("--")) variables.set(property, value);
+    }
+    rules.push({ selector, declarations });
+  }
+
+  const backgrounds = new Map<string, number>();
+  const texts = new Map<string, number>();
+  const accents = new Map<string, number>();
+  const palette = new Map<string, number>();
+  const fonts = new Map<string, number>();
+  const add = (scores: Map<string, number>, key: string, weight: number) =>
+    scores.set(key, (scores.get(key) || 0) + weight);
+
+  for (const { selector, declarations } of rules) {
+    const isRoot = ROOT_SELECTOR.test(selector);
+    const isAccent = ACCENT_SELECTOR.test(selector);
+
+    for (const [property, rawValue] of declarations) {
+      if (property.startsWith("--")) continue;
+      const value = resolveVariables(rawValue, variables);
+
+      if (property === "font-family" || property === "font") {
+        const family = primaryFontFamily(property, value);
+        if (family) add(fonts, family, isRoot ? 10 : 1);
+        continue;
+      }
+
+      const isBackground =
+        property === "background" || property === "background-color";
+      if (!isBackground && !property.endsWith("color") && property !== "fill") {
+        continue;
+      }
+
+      for (const color of findColors(value)) {
+        add(palette, color, 1);
+        if (isBackground) add(backgrounds, color, isRoot ? 10 : 1);
+        if (property === "color") add(texts, color, isRoot ? 10 : 1);
+        if (isSaturated(color)) add(accents, color, isAccent ? 5 : 1);
+      }
+    }
+  }
+
+  const background = topKeys(backgrounds, 1)[0] || null;
+  const text =
+    topKeys(texts, 3).find((color) => color !== background) || null;
+  const accent =
+    topKeys(accents, 3).find(
+      (color) => color !== background && color !== text
+    ) || null;
+
+  return {
+    background,
+    text,
+    accent,
+    palette: topKeys(palette, 8),
+    fontFamilies: topKeys(fonts, 3),
+  };
+}
+
+function resolveVariables(value: string, variables: Map<string, string>) {
+  let resolved = value;
+  // Variables can reference other variables; a few passes are enough
+  for (let depth = 0; depth < 4 && resolved.includes("var("); depth++) {
+    resolved = resolved.replace(
+      /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\)[^()]*)*))?\)/g,
+      (_, name: string, fallback?: string) =>
+        variables.get(name.toLowerCase()) ?? fallback ?? ""
+    );
+  }
+  return resolved;
+}
+
+function primaryFontFamily(property: string, value: string): string | null {
+  // In the `font` shorthand the family list comes after the size
+  const families =
+    property === "font"
+      ? /(?:^|\s)[\d.]+(?:px|r?em|pt|%|vw|vh)(?:\/\S+)?\s+(.+)$/.exec(value)?.[1]
+      : value;
+  if (!families) return null;
+
+  for (const family of families.split(",")) {
+    const name = family.trim().replace(/^["']|["']$/g, "");
+    if (name && !GENERIC_FONTS.has(name.toLowerCase()) && !name.includes("(")) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find opaque colors in a declaration value, normalized to #rrggbb
+ */
+function findColors(value: string): string[] {
+  const colors: string[] = [];
+  const pattern =
+    /#([0-9a-f]{3,8})\b|rgba?\(([^)]+)\)|hsla?\(([^)]+)\)|\b([a-z]+)\b/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value))) {
+    let rgb: Rgb | null = null;
+    let alpha = 1;
+
+    if (match[1]) {
+      const hex = match[1];
+      if (![3, 4, 6, 8].includes(hex.length)) continue;
+      const full =
+        hex.length <= 4 ? hex.split("").map((c) => c + c).join("") : hex;
+      rgb = {
+        r: parseInt(full.substring(0, 2), 16),
+        g: parseInt(full.substring(2, 4), 16),
+        b: parseInt(full.substring(4, 6), 16),
+      };
+      if (full.length === 8) alpha = parseInt(full.substring(6, 8), 16) / 255;
+    } else if (match[2]) {
+      const parts = match[2].split(/[\s,/]+/).filter(Boolean);
+      const channel = (part: string) =>
+        part.endsWith("%") ? (parseFloat(part) * 255) / 100 : parseFloat(part);
+      rgb = { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]) };
+      if (parts[3]) alpha = parseAlpha(parts[3]);
+    } else if (match[3]) {
+      const parts = match[3].split(/[\s,/]+/).filter(Boolean);
+      rgb = hslToRgb(
+        parseFloat(parts[0]),
+        parseFloat(parts[1]) / 100,
+        parseFloat(parts[2]) / 100
+      );
+      if (parts[3]) alpha = parseAlpha(parts[3]);
+    } else if (match[4] && NAMED_COLORS[match[4].toLowerCase()]) {
+      colors.push(NAMED_COLORS[match[4].toLowerCase()]);
+      continue;
+    }
+
+    if (
+      rgb &&
+      alpha >= 0.5 &&
+      [rgb.r, rgb.g, rgb.b].every((channel) => Number.isFinite(channel))
+    ) {
+      colors.push(toHex(rgb));
+    }
+  }
+
+  return colors;
+}
+
+function parseAlpha(part: string): number {
+  return part.endsWith("%") ? parseFloat(part) / 100 : parseFloat(part);
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const h = (((hue % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] =
+    h < 1 ? [chroma, x, 0]
+    : h < 2 ? [x, chroma, 0]
+    : h < 3 ? [0, chroma, x]
+    : h < 4 ? [0, x, chroma]
+    : h < 5 ? [x, 0, chroma]
+    : [chroma, 0, x];
+  const m = lightness - chroma / 2;
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+}
+
+function toHex({ r, g, b }: Rgb): string {
+  return (
+    "#" +
+    [r, g, b]
+      .map((channel) =>
+        Math.round(Math.min(255, Math.max(0, channel)))
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+function isSaturated(hex: string): boolean {
+  const r = parseInt(hex.substring(1, 3), 16) / 255;
+  const g = parseInt(hex.substring(3, 5), 16) / 255;
+  const b = parseInt(hex.substring(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max === min || lightness < 0.15 || lightness > 0.9) return false;
+  const saturation = (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return saturation > 0.35;
+}
+
+function topKeys(scores: Map<string, number>, count: number): string[] {
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([key]) => key);
+}
+
+/**
+ * Render a style summary as prompt text, or "" when nothing was found
+ */
+export function formatStyleHints(styles: StyleSummary): string {
+  const colors = [
+    styles.background && `background ${styles.background}`,
+    styles.text && `text ${styles.text}`,
+    styles.accent && `accent ${styles.accent}`,
+  ].filter(Boolean);
+
+  const parts = [
+    colors.length > 0 && `Colors: ${colors.join(", ")}.`,
+    styles.fontFamilies.length > 0 &&
+      `Fonts: ${styles.fontFamilies.join(", ")}.`,
+  ].filter(Boolean);
+
+  return parts.join(" ");
+}
@@ -0,0 +1,278 @@
+import { fetchHTMLWithDetails } from "./fetch-html";
+import type { HtmlFetchResult } from "./html-fetchers";
+import { cleanHTML } from "./clean-html";
+import {
+  precleanHTML,
+  precleanRulesFromEnv,
+  shouldSkipLLMClean,
+  type PrecleanResult,
+} from "./preclean-html";
+import { generateImagePromptFromHTML } from "./describe-html";
+import { extractStyles, type StyleSummary } from "./extract-styles";
+import { ImageProviderFactory } from "./image-providers";
+import type { ChunkingInfo } from "./token-budget";
+import type { DualEvent } from "./sse-protocol";
+import { GenerationPipeline, type PipelineStage } from "./generation-pipeline";
+import { canonicalUrlRulesFromEnv, tryCanonicalizeUrl } from "./canonical-url";
+
+const DUAL_IMAGE_MODEL = "gpt-image-1"; // Always use GPT-Image-1
+
+// Use tall format for better website visualization (scrollable view)
+const DUAL_IMAGE_SIZE = "1024x1536";
+
+const DESCRIPTION_PROMPT_PREFIX =
+  "Always generate the header and footer of the website described as follows: ";
+
+function htmlRenderPrompt(cleanedHTML: string): string {
+  return `<task>
+Create a visual representation of this HTML content as it would appear rendered in a web browser.
+</task>
+
+<requirements>
+- Render the layout and structure accurately
+- Include all visible text content
+- Maintain proper hierarchy and spacing
+- Apply appropriate styling for headers, paragraphs, lists
+- Show images as placeholder boxes with labels if present
+- Use a clean, modern web design aesthetic
+</requirements>
+
+<html-content>
+${cleanedHTML}
+</html-content>`;
+}
+
+export interface DualImageRequest {
+  url: string;
+  fetchers?: string[];
+}
+
+/**
+ * Validate a /api/generate-image-dual body. Errors are meant for a 400 response.
+ */
+export function parseDualImageRequest(
+  body: Record<string, unknown>
+): { request: DualImageRequest } | { error: string } {
+  const { url: requestedUrl, fetchers } = body;
+
+  if (typeof requestedUrl !== "string" || !requestedUrl) {
+    return { error: "URL is required" };
+  }
+
+  if (
+    fetchers !== undefined &&
+    (!Array.isArray(fetchers) ||
+      !fetchers.every((name) => typeof name === "string"))
+  ) {
+    return { error: "fetchers must be an array of fetcher names" };
+  }
+
+  return {
+    request: {
+      url: tryCanonicalizeUrl(requestedUrl, canonicalUrlRulesFromEnv()),
+      fetchers,
+    },
+  };
+}
+
+/**
+ * Per-run state of the dual image pipeline, filled in by its stages
+ */
+export interface DualImageContext {
+  request: DualImageRequest;
+  startTime: number;
+  fetched?: HtmlFetchResult;
+  precleaned?: PrecleanResult;
+  styles?: StyleSummary;
+  cleanedHTML?: string;
+  imagePrompt?: string;
+}
+
+export function createDualImageContext(request: DualImageRequest): DualImageContext {
+  return { request, startTime: Date.now() };
+}
+
+type DualImageStage = PipelineStage<DualImageContext, DualEvent>;
+
+// Step 1: Fetch HTML
+const fetchStage: DualImageStage = {
+  name: "fetch",
+  run: async (context, { emit, signal }) => {
+    const { url, fetchers } = context.request;
+    emit({
+      step: "fetching",
+      message: "Fetching HTML from URL...",
+    });
+
+    const startTime = Date.now();
+    context.fetched = await fetchHTMLWithDetails(url, { fetchers, signal });
+    const { html, ...fetchDetails } = context.fetched;
+
+    emit({
+      step: "fetched",
+      message: `HTML fetched (${html.length} chars, ${Date.now() - startTime}ms)`,
+      fetchDetails,
+    });
+  },
+};
+
+// Step 2: Clean the HTML and describe it, in parallel
+const processStage: DualImageStage = {
+  name: "process",
+  run: async (context, { emit, signal }) => {
+    const { fetched } = context;
+    if (!fetched) {
+      throw new Error("The process stage needs fetched HTML");
+    }
+
+    emit({
+      step: "processing",
+      message: "Processing HTML in two ways...",
+    });
+
+    const startTime = Date.now();
+    const precleaned = precleanHTML(fetched.html, precleanRulesFromEnv());
+
+    // Both paths chunk the same page, so only report it once
+    let chunkingReported = false;
+    const sendChunking = (chunking: ChunkingInfo) => {
+      if (chunkingReported) return;
+      chunkingReported = true;
+      emit({
+        step: "chunking",
+        message: `Large page (~${chunking.estimatedTokens} tokens), processing in ${chunking.chunkCount} chunks...`,
+        chunking,
+      });
+    };
+
+    // Colors and fonts from the page's CSS, read from the raw HTML
+    // since pre-cleaning drops stylesheet links
+    const stylesPromise = extractStyles(fetched.html, {
+      baseUrl: fetched.finalUrl,
+      fetchers: context.request.fetchers,
+      signal,
+    });
+
+    // Run both processes in parallel
+    const [cleanedHTML, imagePrompt] = await Promise.all([
+      // Path 1: Clean HTML for direct rendering
+      (async () => {
+        // Small pages are already clean enough after pre-cleaning
+        if (shouldSkipLLMClean(precleaned.html)) {
+          return precleaned.html;
+        }
+        const maxTokens = 28000; // GPT-Image-1 has high token limit
+        const cleaned = await cleanHTML(
+          precleaned.html,
+          maxTokens,
+          undefined,
+          { onChunking: sendChunking, signal }
+        );
+        // Ensure cleaned HTML is not empty
+        if (!cleaned || cleaned.trim().length === 0) {
+          throw new Error("Failed to clean HTML - empty result");
+        }
+        return cleaned;
+      })(),
+
+      // Path 2: Generate descriptive prompt
+      (async () => {
+        const prompt = await generateImagePromptFromHTML(
+          precleaned.html,
+          undefined,
+          {
+            maxPromptLength:
+              ImageProviderFactory.getProviderInfo(DUAL_IMAGE_MODEL).maxPromptLength -
+              DESCRIPTION_PROMPT_PREFIX.length,
+            styles: await stylesPromise,
+            onChunking: sendChunking,
+            signal,
+          }
+        );
+        // Double-check prompt is not empty
+        if (!prompt || prompt.trim().length === 0) {
+          throw new Error("Failed to generate description - empty result");
+        }
+        return prompt;
+      })(),
+    ]);
+
+    const styles = await stylesPromise;
+    context.precleaned = precleaned;
+    context.styles = styles;
+    context.cleanedHTML = cleanedHTML;
+    context.imagePrompt = imagePrompt;
+
+    emit({
+      step: "processed",
+      message: `HTML processed both ways (${Date.now() - startTime}ms)`,
+      stats: {
+        cleanedLength: cleanedHTML.length,
+        promptLength: imagePrompt.length,
+      },
+      precleanStats: precleaned.stats,
+      styles,
+    });
+  },
+};
+
+// Step 3: Generate one image from each, in parallel
+const generateStage: DualImageStage = {
+  name: "generate",
+  run: async (context, { emit, signal, timings }) => {
+    const { fetched, cleanedHTML, imagePrompt } = context;
+    if (!fetched || cleanedHTML === undefined || imagePrompt === undefined) {
+      throw new Error("The generate stage needs cleaned HTML and an image prompt");
+    }
+
+    emit({
+      step: "generating",
+      message: `Generating both images with ${DUAL_IMAGE_MODEL}...`,
+    });
+
+    const startTime = Date.now();
+    const provider = ImageProviderFactory.getProvider(DUAL_IMAGE_MODEL);
+    const imageOptions = { size: DUAL_IMAGE_SIZE, quality: "high", signal } as const;
+
+    const [htmlBasedResult, descriptionBasedResult] = await Promise.all([
+      provider.generate(htmlRenderPrompt(cleanedHTML), imageOptions),
+      provider.generate(DESCRIPTION_PROMPT_PREFIX + imagePrompt, imageOptions),
+    ]);
+
+    const imageTime = Date.now() - startTime;
+
+    emit({
+      step: "completed",
+      message: `Both images generated successfully (${imageTime}ms)`,
+      htmlBasedImage: {
+        base64: htmlBasedResult.base64,
+        mediaType: htmlBasedResult.mediaType,
+        revisedPrompt: htmlBasedResult.revisedPrompt,
+      },
+      descriptionBasedImage: {
+        base64: descriptionBasedResult.base64,
+        mediaType: descriptionBasedResult.mediaType,
+        revisedPrompt: descriptionBasedResult.revisedPrompt,
+      },
+      imagePrompt,
+      stats: {
+        originalHTMLLength: fetched.html.length,
+        cleanedHTMLLength: cleanedHTML.length,
+        promptLength: imagePrompt.length,
+        totalTime: Date.now() - context.startTime,
+        fetchTime: timings.fetch ?? 0,
+        processingTime: timings.process ?? 0,
+        imageTime,
+      },
+    });
+  },
+};
+
+/**
+ * The experimental comparison behind /api/generate-image-dual: one image
+ * rendered from cleaned HTML and one from a description of the page
+ */
+export const dualImagePipeline = new GenerationPipeline<DualImageContext, DualEvent>(
+  "dual-image",
+  [fetchStage, processStage, generateStage]
+);
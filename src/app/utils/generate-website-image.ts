@@ -0,0 +1,931 @@
+import { after } from "next/server";
+import { fetchHTMLWithDetails } from "./fetch-html";
+import { fetchDetailsOf, localHtmlResult, type HtmlFetchResult } from "./html-fetchers";
+import { generateImagePromptFromHTML } from "./describe-html";
+import { precleanHTML, precleanRulesFromEnv } from "./preclean-html";
+import {
+  PageOutlineSchema,
+  buildImagePromptFromOutline,
+  extractPageOutline,
+  type PageOutline,
+} from "./page-outline";
+import { extractStyles, type StyleSummary } from "./extract-styles";
+import type { ChunkingInfo } from "./token-budget";
+import {
+  ImageProviderFactory,
+  SmartImageProvider,
+  type ImageProvider,
+  type SmartGenerationOptions,
+  type SmartGenerationResult,
+} from "./image-providers";
+import { providerRateLimiter } from "./rate-limit";
+import { errorEventFields, ProviderError } from "./provider-errors";
+import { URLValidationError, validateURL } from "./validate-url";
+import type { FlightTask } from "./single-flight";
+import type { GenerationEvent } from "./sse-protocol";
+import { GenerationPipeline, type PipelineStage } from "./generation-pipeline";
+import {
+  cacheArtifact,
+  getArtifact,
+  type ArtifactTypes,
+  type CachedStage,
+} from "./artifact-cache";
+import {
+  getCachedImage,
+  cacheImage,
+  generateContentCacheId,
+  hashPageContent,
+  markCacheValidated,
+  needsRevalidation,
+  type CachedImageResult,
+} from "./image-cache";
+import { getDeviceProfile, isDeviceName, type DeviceProfile } from "./device-profiles";
+import { canonicalUrlRulesFromEnv, tryCanonicalizeUrl } from "./canonical-url";
+
+/**
+ * A validated generate request, shared by /api/generate-image and /api/jobs
+ */
+export interface GenerateRequest {
+  // Canonical URL; empty for raw HTML input
+  url: string;
+  inputHtml?: string;
+  baseUrl?: string;
+  model: string;
+  fetchers?: string[];
+  device: DeviceProfile;
+  // A client-supplied (possibly edited) outline replaces fetch and describe
+  suppliedOutline?: PageOutline;
+  force: boolean;
+  noCache: boolean;
+  // URL, or a content hash for raw HTML input
+  cacheId: string;
+  readCache: boolean;
+  writeCache: boolean;
+}
+
+export type ParsedGenerateRequest =
+  | { request: GenerateRequest }
+  | { error: string; issues?: unknown };
+
+/**
+ * Validate a generate request body. Errors are meant for a 400 response.
+ */
+export function parseGenerateRequest(body: Record<string, unknown>): ParsedGenerateRequest {
+  const {
+    url: requestedUrl,
+    provider: requestedProvider,
+    fetchers,
+    outline: requestedOutline,
+    device: requestedDevice,
+    html: inputHtml,
+    baseUrl,
+    force,
+    noCache,
+  } = body;
+  // Equivalent spellings of a URL share one fetch and cache entry
+  const url =
+    typeof requestedUrl === "string"
+      ? tryCanonicalizeUrl(requestedUrl, canonicalUrlRulesFromEnv())
+      : "";
+  // Default to Gemini, but allow override
+  const model =
+    typeof requestedProvider === "string" && requestedProvider
+      ? requestedProvider
+      : "gemini-2.5-flash-image-preview";
+
+  if (!url && inputHtml === undefined) {
+    return { error: "URL or html is required" };
+  }
+
+  if (url && inputHtml !== undefined) {
+    return { error: "Provide either url or html, not both" };
+  }
+
+  if (inputHtml !== undefined && typeof inputHtml !== "string") {
+    return { error: "html must be a string" };
+  }
+
+  if (baseUrl !== undefined && !isHttpUrl(baseUrl)) {
+    return { error: "baseUrl must be an http(s) URL" };
+  }
+
+  if (
+    fetchers !== undefined &&
+    (!Array.isArray(fetchers) ||
+      !fetchers.every((name) => typeof name === "string"))
+  ) {
+    return { error: "fetchers must be an array of fetcher names" };
+  }
+
+  if (requestedDevice !== undefined && !isDeviceName(requestedDevice)) {
+    return { error: "device must be one of desktop, tablet or mobile" };
+  }
+
+  const parsedOutline =
+    requestedOutline !== undefined
+      ? PageOutlineSchema.safeParse(requestedOutline)
+      : undefined;
+  if (parsedOutline && !parsedOutline.success) {
+    return {
+      error: "outline does not match the PageOutline schema",
+      issues: parsedOutline.error.issues,
+    };
+  }
+  const suppliedOutline = parsedOutline?.data;
+
+  if (
+    (force !== undefined && typeof force !== "boolean") ||
+    (noCache !== undefined && typeof noCache !== "boolean")
+  ) {
+    return { error: "force and noCache must be booleans" };
+  }
+
+  return {
+    request: {
+      url,
+      inputHtml,
+      baseUrl,
+      model,
+      fetchers,
+      device: getDeviceProfile(requestedDevice),
+      suppliedOutline,
+      force: Boolean(force),
+      noCache: Boolean(noCache),
+      // Raw HTML input is cached by content hash instead of by URL
+      cacheId: inputHtml !== undefined ? generateContentCacheId(inputHtml, baseUrl) : url,
+      // Images from an edited outline don't represent the URL, so they neither
+      // read from nor write to the cache. force regenerates and overwrites the
+      // entry; noCache bypasses the cache entirely.
+      readCache: !suppliedOutline && !force && !noCache,
+      writeCache: !suppliedOutline && !noCache,
+    },
+  };
+}
+
+/**
+ * Identical concurrent requests share one run; an edited outline is unique
+ * to its request and gets no key
+ */
+export function generationFlightKey(request: GenerateRequest): string | null {
+  if (request.suppliedOutline) return null;
+  return JSON.stringify([
+    request.cacheId,
+    request.model,
+    request.device.name,
+    request.fetchers ?? null,
+    request.force,
+    request.noCache,
+  ]);
+}
+
+export function websitePromptPrefix(device: DeviceProfile): string {
+  const hint = device.promptHint ? ` ${device.promptHint}` : "";
+  return `Create a detailed image of the website${hint}. Only include the website content. Never include browser interface. Always generate website header and footer, and start at the top of the website described as follows: `;
+}
+
+/**
+ * Build the image prompt from a structured outline, falling back to the
+ * free-text description if outline extraction fails
+ */
+export async function describePage(
+  html: string,
+  distinctId: string,
+  options: {
+    maxPromptLength: number;
+    styles?: StyleSummary;
+    onChunking?: (info: ChunkingInfo) => void;
+    signal?: AbortSignal;
+  }
+): Promise<{ imagePrompt: string; outline: PageOutline | null }> {
+  const { maxPromptLength, styles, onChunking, signal } = options;
+  const outline = await extractPageOutline(html, { onChunking, styles, signal });
+  if (outline) {
+    return {
+      imagePrompt: buildImagePromptFromOutline(outline, maxPromptLength),
+      outline,
+    };
+  }
+
+  console.log("⚠️ Outline extraction failed, using free-text description");
+  const imagePrompt = await generateImagePromptFromHTML(html, distinctId, {
+    maxPromptLength,
+    styles,
+    onChunking,
+    signal,
+  });
+  return { imagePrompt, outline: null };
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export interface RefreshParams {
+  url: string;
+  fetchers?: string[];
+  device: DeviceProfile;
+  model: string;
+  distinctId: string;
+}
+
+export interface RefreshedImage {
+  base64: string;
+  mediaType: string;
+  revisedPrompt?: string;
+}
+
+// Refreshes running in this process, so concurrent stale hits share one
+const refreshesInFlight = new Map<string, Promise<RefreshedImage>>();
+
+/**
+ * Regenerate a stale cached image and write it back to the cache. Progress
+ * isn't streamed; the promise resolves once the new image is cached.
+ */
+export function refreshCachedImage(params: RefreshParams): Promise<RefreshedImage> {
+  const key = `${params.url}|${params.model}|${params.device.name}`;
+  const existing = refreshesInFlight.get(key);
+  if (existing) return existing;
+
+  const refresh = regenerateImage(params).finally(() => {
+    refreshesInFlight.delete(key);
+  });
+  refreshesInFlight.set(key, refresh);
+  return refresh;
+}
+
+async function regenerateImage({
+  url,
+  fetchers,
+  device,
+  model,
+  distinctId,
+}: RefreshParams): Promise<RefreshedImage> {
+  console.log(`🔄 Refreshing stale cache entry for ${url} with model: ${model}`);
+  const startTime = Date.now();
+
+  // The site may have changed since it was validated, so validate, fetch
+  // and describe anew, then replace the artifacts as well
+  const context = createWebsiteImageContext(
+    {
+      url,
+      model,
+      fetchers,
+      device,
+      force: true,
+      noCache: false,
+      cacheId: url,
+      readCache: false,
+      writeCache: true,
+    },
+    distinctId
+  );
+  await websiteImagePipeline.run(context);
+  if (!context.image) {
+    throw new Error("No image was generated");
+  }
+
+  console.log(`✅ Refreshed cache entry for ${url} in ${Date.now() - startTime}ms`);
+  const { base64, mediaType, revisedPrompt } = context.image;
+  return { base64, mediaType, revisedPrompt };
+}
+
+export interface RevalidationResult {
+  // null when the page changed and the image must be regenerated
+  cachedResult: CachedImageResult | null;
+  // The freshly fetched page, reused by the generation that follows a change
+  prefetched?: HtmlFetchResult;
+}
+
+/**
+ * Re-fetch the page behind a cache hit and compare its pre-cleaned content
+ * hash with the one the image was generated from. A failed fetch keeps the
+ * cached image.
+ */
+export async function revalidateCachedImage(
+  cachedResult: CachedImageResult,
+  { url, fetchers, device, model }: Omit<RefreshParams, "distinctId">,
+  signal?: AbortSignal
+): Promise<RevalidationResult> {
+  try {
+    const prefetched = await fetchHTMLWithDetails(url, { fetchers, device, signal });
+    const contentHash = hashPageContent(precleanHTML(prefetched.html, precleanRulesFromEnv()).html);
+
+    if (contentHash === cachedResult.contentHash) {
+      console.log(`✅ Content unchanged for ${url}, reusing cached image`);
+      await markCacheValidated(url, model, device.name);
+      // The image still matches the live page, so it isn't stale either
+      return { cachedResult: { ...cachedResult, stale: false } };
+    }
+
+    console.log(`🔁 Content changed for ${url}, regenerating`);
+    return { cachedResult: null, prefetched };
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error(`❌ Revalidation fetch failed for ${url}, serving cached image:`, error);
+    return { cachedResult };
+  }
+}
+
+export interface WebsiteImage {
+  base64: string;
+  mediaType: string;
+  revisedPrompt?: string;
+  // Set on image cache hits
+  cached?: boolean;
+  stale?: boolean;
+  blobUrl?: string;
+  // The model that drew a generated image; differs from the requested one
+  // after a provider fallback
+  model?: string;
+}
+
+/**
+ * Per-run state of the website image pipeline, filled in by its stages
+ */
+export interface WebsiteImageContext {
+  request: GenerateRequest;
+  distinctId: string;
+  // Stream partial images, or make a single provider call
+  stream: boolean;
+  // The requested provider; fallbacks are only used by the generate stage
+  provider: ImageProvider;
+  promptPrefix: string;
+  // Room left for the page description after the prefix
+  maxPromptLength: number;
+  // Provider-independent stages from an earlier run for this page are
+  // reused, unless the page just changed or the cache is bypassed
+  readArtifacts: boolean;
+  cachedStages: CachedStage[];
+  // The page fetched while revalidating a cache hit
+  prefetched?: HtmlFetchResult;
+  fetched?: HtmlFetchResult;
+  styles?: StyleSummary;
+  cleaned?: ArtifactTypes["cleaned"];
+  outline: PageOutline | null;
+  imagePrompt?: string;
+  image?: WebsiteImage;
+}
+
+export function createWebsiteImageContext(
+  request: GenerateRequest,
+  distinctId: string,
+  { stream = false }: { stream?: boolean } = {}
+): WebsiteImageContext {
+  const provider = ImageProviderFactory.getProvider(request.model);
+  const promptPrefix = websitePromptPrefix(request.device);
+  return {
+    request,
+    distinctId,
+    stream,
+    provider,
+    promptPrefix,
+    maxPromptLength: provider.maxPromptLength - promptPrefix.length,
+    readArtifacts: request.readCache,
+    cachedStages: [],
+    outline: request.suppliedOutline || null,
+  };
+}
+
+type WebsiteImageStage = PipelineStage<WebsiteImageContext, GenerationEvent>;
+
+// The requested model is tried first, then the rest of the chain
+const smartImageProvider = new SmartImageProvider();
+
+// Step 0: Serve from the image cache, checking older hits against the live page
+const cacheStage: WebsiteImageStage = {
+  name: "cache",
+  run: async (context, { emit, signal, stop }) => {
+    const { url, inputHtml, model, fetchers, device, cacheId, readCache } = context.request;
+    emit({
+      step: "checking_cache",
+      message: "Checking image cache...",
+    });
+
+    let cachedResult = readCache
+      ? await getCachedImage(cacheId, model, device.name)
+      : null;
+
+    // Raw HTML is keyed by content already, so only URL entries are revalidated
+    if (cachedResult && inputHtml === undefined && needsRevalidation(cachedResult)) {
+      emit({
+        step: "revalidating",
+        message: "Checking whether the page has changed...",
+      });
+      const revalidation = await revalidateCachedImage(
+        cachedResult,
+        { url, fetchers, device, model },
+        signal
+      );
+      cachedResult = revalidation.cachedResult;
+      if (revalidation.prefetched) {
+        // The page just changed, so its cached artifacts are outdated too
+        context.prefetched = revalidation.prefetched;
+        context.readArtifacts = false;
+      }
+    }
+
+    if (!cachedResult) {
+      console.log(`🔍 Cache miss for ${cacheId} with model: ${model}, generating new image`);
+      return;
+    }
+    if (signal.aborted) return;
+
+    // Raw HTML is cached by content, so only URL entries go stale
+    const stale = Boolean(cachedResult.stale) && inputHtml === undefined;
+    console.log(
+      `🎯 Cache hit for ${cacheId} with model: ${model}${stale ? " (stale)" : ""}`
+    );
+    context.image = {
+      base64: cachedResult.base64,
+      mediaType: cachedResult.mediaType,
+      revisedPrompt: cachedResult.revisedPrompt,
+      cached: true,
+      stale,
+      blobUrl: cachedResult.blobUrl,
+      model: cachedResult.model,
+    };
+    context.cachedStages = ["image"];
+    emit({
+      step: "completed",
+      message: stale
+        ? "Image loaded from cache, refreshing in background"
+        : "Image loaded from cache",
+      image: cachedResult.base64,
+      mediaType: cachedResult.mediaType,
+      revisedPrompt: cachedResult.revisedPrompt,
+      cached: true,
+      stale,
+      blobUrl: cachedResult.blobUrl,
+      model: cachedResult.model,
+      cachedStages: ["image"],
+    });
+    stop();
+  },
+};
+
+// Step 1: Validate the URL (raw HTML input has no URL to validate)
+const validateStage: WebsiteImageStage = {
+  name: "validate",
+  when: (context) => context.request.inputHtml === undefined,
+  run: async (context, { emit, signal }) => {
+    const { url, cacheId, writeCache } = context.request;
+    let validation = context.readArtifacts
+      ? await getArtifact("validation", cacheId)
+      : null;
+
+    if (validation) {
+      context.cachedStages.push("validation");
+    } else {
+      emit({
+        step: "validating",
+        message: "Validating URL safety...",
+      });
+
+      validation = await validateURL(url, signal);
+      if (writeCache) {
+        cacheArtifact("validation", cacheId, undefined, validation);
+      }
+    }
+
+    if (!validation.isValid) {
+      throw new URLValidationError(validation);
+    }
+
+    emit({
+      step: "validated",
+      message:
+        validation.category === "potentially_unsafe"
+          ? `URL validated with warning: ${validation.reason || "Proceeding with caution"}`
+          : "URL validated as safe",
+      fromCache: context.cachedStages.includes("validation"),
+    });
+  },
+};
+
+// Step 2: Fetch the HTML, or take the raw HTML from the request. Cleaned
+// HTML from the cache makes this and the next two stages unnecessary.
+const fetchStage: WebsiteImageStage = {
+  name: "fetch",
+  when: (context) => !context.request.suppliedOutline,
+  run: async (context, { emit, signal }) => {
+    const { url, inputHtml, baseUrl, fetchers, device, cacheId, writeCache } =
+      context.request;
+    const { cachedStages, prefetched } = context;
+
+    const cleaned = context.readArtifacts
+      ? await getArtifact("cleaned", cacheId, device.name)
+      : null;
+    if (cleaned) {
+      context.cleaned = cleaned;
+      cachedStages.push("cleaned");
+      return;
+    }
+
+    emit({
+      step: "fetching",
+      message:
+        inputHtml === undefined
+          ? "Fetching HTML from URL..."
+          : "Reading HTML from request...",
+    });
+
+    const startTime = Date.now();
+    let fetched =
+      prefetched ??
+      (context.readArtifacts && inputHtml === undefined
+        ? await getArtifact("html", cacheId, device.name)
+        : null);
+    if (fetched && !prefetched) {
+      cachedStages.push("html");
+    }
+    if (!fetched) {
+      fetched =
+        inputHtml === undefined
+          ? await fetchHTMLWithDetails(url, { fetchers, device, signal })
+          : localHtmlResult(baseUrl || "", inputHtml, "input");
+    }
+    if (writeCache && inputHtml === undefined && !cachedStages.includes("html")) {
+      cacheArtifact("html", cacheId, device.name, fetched);
+    }
+    context.fetched = fetched;
+
+    const fetchDetails = fetchDetailsOf(fetched);
+    emit({
+      step: "fetched",
+      message: `HTML fetched (${fetchDetails.byteCount} bytes${
+        fetchDetails.truncated ? ", truncated" : ""
+      }, ${Date.now() - startTime}ms)`,
+      fetchDetails,
+      fromCache: cachedStages.includes("html"),
+    });
+  },
+};
+
+// Step 2b: Read real colors and fonts from the page's CSS (before
+// pre-cleaning drops the stylesheet links)
+const stylesStage: WebsiteImageStage = {
+  name: "styles",
+  when: (context) => context.fetched !== undefined,
+  run: async (context, { emit, signal }) => {
+    const { html, finalUrl } = context.fetched!;
+    const styles = await extractStyles(html, {
+      baseUrl: finalUrl || undefined,
+      fetchers: context.request.fetchers,
+      signal,
+    });
+    context.styles = styles;
+
+    emit({
+      step: "styles_extracted",
+      message: `Styles extracted from ${styles.stylesheets.length} stylesheet${
+        styles.stylesheets.length === 1 ? "" : "s"
+      }`,
+      styles,
+    });
+  },
+};
+
+// Step 2c: Deterministically strip scripts, trackers and noise
+const precleanStage: WebsiteImageStage = {
+  name: "preclean",
+  when: (context) => context.fetched !== undefined,
+  run: (context, { emit }) => {
+    const { cacheId, device, writeCache } = context.request;
+    const { fetched, styles } = context;
+    if (!fetched || !styles) {
+      throw new Error("The preclean stage needs fetched HTML and its styles");
+    }
+
+    const precleaned = precleanHTML(fetched.html, precleanRulesFromEnv());
+    context.cleaned = {
+      html: precleaned.html,
+      stats: precleaned.stats,
+      styles,
+      contentHash: hashPageContent(precleaned.html),
+    };
+    if (writeCache) {
+      cacheArtifact("cleaned", cacheId, device.name, context.cleaned);
+    }
+
+    emit({
+      step: "precleaned",
+      message: `HTML pre-cleaned (${precleaned.stats.savedPercent}% smaller)`,
+      precleanStats: precleaned.stats,
+    });
+  },
+};
+
+// Step 3: Build the image prompt from the supplied outline, the cached
+// description or a new description of the cleaned HTML
+const describeStage: WebsiteImageStage = {
+  name: "describe",
+  run: async (context, { emit, signal }) => {
+    const { suppliedOutline, cacheId, device, writeCache } = context.request;
+    const { maxPromptLength, cachedStages } = context;
+
+    if (suppliedOutline) {
+      context.imagePrompt = buildImagePromptFromOutline(suppliedOutline, maxPromptLength);
+    } else {
+      const { cleaned } = context;
+      if (!cleaned) {
+        throw new Error("The describe stage needs cleaned HTML");
+      }
+
+      // An outline fits any provider's limit; a free-text prompt only
+      // fits limits at least as large as the one it was written for
+      const description = context.readArtifacts
+        ? await getArtifact("description", cacheId, device.name)
+        : null;
+      if (
+        description &&
+        (description.outline || description.imagePrompt.length <= maxPromptLength)
+      ) {
+        cachedStages.push("description");
+        context.outline = description.outline;
+        context.imagePrompt = description.outline
+          ? buildImagePromptFromOutline(description.outline, maxPromptLength)
+          : description.imagePrompt;
+      } else {
+        emit({
+          step: "describing",
+          message: "Analyzing website structure and generating description...",
+        });
+
+        const { imagePrompt, outline } = await describePage(
+          cleaned.html,
+          context.distinctId,
+          {
+            maxPromptLength,
+            styles: cleaned.styles,
+            signal,
+            onChunking: (chunking) => {
+              emit({
+                step: "chunking",
+                message: `Large page (~${chunking.estimatedTokens} tokens), describing in ${chunking.chunkCount} chunks...`,
+                chunking,
+              });
+            },
+          }
+        );
+        context.imagePrompt = imagePrompt;
+        context.outline = outline;
+        if (writeCache) {
+          cacheArtifact("description", cacheId, device.name, {
+            outline,
+            imagePrompt,
+            maxPromptLength,
+          });
+        }
+      }
+    }
+
+    emit({
+      step: "described",
+      message: suppliedOutline
+        ? "Using supplied outline"
+        : cachedStages.includes("description")
+        ? "Description loaded from cache"
+        : context.outline
+        ? "Outline extracted"
+        : "Description generated",
+      outline: context.outline,
+      cachedStages,
+    });
+  },
+};
+
+// Step 4: Generate the image, falling back along the SmartImageProvider
+// chain when the requested provider fails. Every provider call, retries
+// included, waits for its rate limit (PROVIDER_RATE_LIMITS).
+const generateStage: WebsiteImageStage = {
+  name: "generate",
+  run: async (context, { emit, signal, timings }) => {
+    const { model, device } = context.request;
+    const { distinctId, imagePrompt, cachedStages } = context;
+    if (imagePrompt === undefined) {
+      throw new Error("The generate stage needs an image prompt");
+    }
+    // Written for the requested provider's limit; a fallback with a smaller
+    // one truncates it
+    const prompt = context.promptPrefix + imagePrompt;
+
+    const options: SmartGenerationOptions = {
+      size: device.imageSize,
+      distinctId,
+      signal,
+      preferredModel: model,
+      beforeAttempt: async (modelName) => {
+        await providerRateLimiter.acquire(modelName, signal, (delayMs) => {
+          emit({
+            step: "rate_limited",
+            message: `Waiting ${Math.ceil(delayMs / 1000)}s for the ${modelName} rate limit...`,
+          });
+        });
+        emit({
+          step: "generating",
+          message: `Generating image with ${modelName}...`,
+        });
+      },
+      onRetry: (error, attempt, delayMs) => {
+        emit({
+          step: "retrying",
+          message: `${error.userMessage} Retrying in ${Math.ceil(delayMs / 1000)}s...`,
+          attempt,
+          delayMs,
+        });
+      },
+      onFallback: ({ from, to, error }) => {
+        emit({
+          step: "provider_fallback",
+          message: `${from} failed, generating with ${to} instead...`,
+          from,
+          to,
+          errorKind: error instanceof ProviderError ? error.kind : undefined,
+        });
+      },
+    };
+
+    const imageStartTime = Date.now();
+    let result: SmartGenerationResult | undefined;
+
+    // Size comes from the device profile (Gemini doesn't support size control)
+    if (context.stream) {
+      // Use streaming with partial images
+      const streamGenerator = smartImageProvider.generateStream(prompt, {
+        ...options,
+        stream: true,
+        partialImages: 3,
+      });
+
+      for await (const streamed of streamGenerator) {
+        // Check if cancelled during streaming
+        if (signal.aborted) return;
+
+        if (streamed.isPartial) {
+          emit({
+            step: "partial_image",
+            message: `Partial image ${streamed.partialIndex} received...`,
+            image: streamed.base64,
+            mediaType: streamed.mediaType,
+            isPartial: true,
+            partialIndex: streamed.partialIndex ?? 0,
+          });
+        } else {
+          result = streamed;
+        }
+      }
+    } else {
+      result = await smartImageProvider.generate(prompt, {
+        ...options,
+        quality: "high",
+      });
+    }
+
+    const timing = {
+      imageGeneration: `${Date.now() - imageStartTime}ms`,
+      stages: { ...timings },
+    };
+
+    // Always send a completion event, even if no final image was yielded
+    if (!result) {
+      emit({
+        step: "completed",
+        message: "Image generation completed",
+        cachedStages,
+        timing,
+      });
+      return;
+    }
+
+    context.image = {
+      base64: result.base64,
+      mediaType: result.mediaType,
+      revisedPrompt: result.revisedPrompt,
+      model: result.usedModel,
+    };
+    emit({
+      step: "completed",
+      message:
+        result.usedModel === model
+          ? "Image generated successfully"
+          : `Image generated successfully with ${result.usedModel}`,
+      image: result.base64,
+      mediaType: result.mediaType,
+      revisedPrompt: result.revisedPrompt,
+      model: result.usedModel,
+      cachedStages,
+      timing,
+    });
+  },
+};
+
+// Step 5: Cache the image. Clients have it already, so failures are only logged.
+const storeStage: WebsiteImageStage = {
+  name: "store",
+  when: (context) => context.request.writeCache && context.image !== undefined,
+  run: async (context) => {
+    const { cacheId, device, model: requestedModel } = context.request;
+    const { base64, mediaType, revisedPrompt } = context.image!;
+    const contentHash = context.cleaned?.contentHash;
+    // Cached under the model that drew it. After a fallback it is also cached
+    // under the requested model, where the cache stage looks, marked with the
+    // model that drew it.
+    const model = context.image!.model ?? requestedModel;
+    const entries =
+      model === requestedModel
+        ? [{ provider: model }]
+        : [{ provider: model }, { provider: requestedModel, model }];
+    for (const entry of entries) {
+      try {
+        await cacheImage(
+          cacheId,
+          { base64, mediaType, revisedPrompt, contentHash, model: entry.model },
+          entry.provider,
+          device.name
+        );
+      } catch (error) {
+        console.error(
+          `❌ Failed to cache image for ${cacheId} with model ${entry.provider}:`,
+          error
+        );
+      }
+    }
+  },
+};
+
+/**
+ * Cache lookup, validation, fetch, style extraction, pre-cleaning,
+ * description, image generation and caching. Shared by
+ * /api/generate-image, /api/jobs, batches and background refreshes.
+ */
+export const websiteImagePipeline = new GenerationPipeline<
+  WebsiteImageContext,
+  GenerationEvent
+>("website-image", [
+  cacheStage,
+  validateStage,
+  fetchStage,
+  stylesStage,
+  precleanStage,
+  describeStage,
+  generateStage,
+  storeStage,
+]);
+
+/**
+ * The streaming generate task run by /api/generate-image and /api/jobs.
+ * Progress is published as SSE payloads through `emit`; a stale cache hit
+ * is followed by a "refreshed" event once it has been regenerated.
+ */
+export function createGenerationTask(
+  request: GenerateRequest,
+  distinctId: string
+): FlightTask {
+  return async (emit, signal) => {
+    try {
+      const context = createWebsiteImageContext(request, distinctId, { stream: true });
+      await websiteImagePipeline.run(context, { signal, onProgress: emit });
+
+      if (context.image?.stale && !signal.aborted) {
+        const { url, fetchers, device, model, cacheId } = request;
+        // Serve stale, then regenerate. after() keeps the refresh
+        // running if the client disconnects before it finishes.
+        const refresh = refreshCachedImage({
+          url,
+          fetchers,
+          device,
+          model,
+          distinctId,
+        });
+        after(() => refresh.catch(() => undefined));
+
+        try {
+          const refreshed = await refresh;
+          if (!signal.aborted) {
+            emit({
+              step: "refreshed",
+              message: "Cached image refreshed",
+              image: refreshed.base64,
+              mediaType: refreshed.mediaType,
+              revisedPrompt: refreshed.revisedPrompt,
+            });
+          }
+        } catch (error) {
+          // The stale image was already delivered; just log
+          console.error(`❌ Failed to refresh cache entry for ${cacheId}:`, error);
+        }
+      }
+    } catch (error) {
+      emit({
+        step: "error",
+        ...errorEventFields(error),
+      });
+    }
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * One named step of a GenerationPipeline. Stages read and extend a context
+ * shared by the run, and report progress through `emit`.
+ */
+export interface PipelineStage<C, E> {
+  name: string;
+  // The stage is skipped for runs where this returns false
+  when?: (context: C) => boolean;
+  run: (context: C, controls: StageControls<E>) => Promise<void> | void;
+}
+
+export interface StageControls<E> {
+  emit: (event: E) => void;
+  signal: AbortSignal;
+  // Duration in ms of each stage finished so far
+  timings: Readonly<Record<string, number>>;
+  // End the run after this stage, e.g. on a cache hit
+  stop: () => void;
+}
+
+export interface PipelineHooks<C> {
+  before?: (stage: string, context: C) => void | Promise<void>;
+  after?: (stage: string, context: C, durationMs: number) => void | Promise<void>;
+  // Called with the stage's error before it is rethrown
+  error?: (stage: string, error: unknown, context: C) => void | Promise<void>;
+  // The signal aborted while `stage` was running or about to run
+  cancel?: (stage: string, context: C) => void | Promise<void>;
+}
+
+export interface PipelineRunOptions<E> {
+  signal?: AbortSignal;
+  onProgress?: (event: E) => void;
+}
+
+export interface PipelineResult {
+  // The signal aborted before every stage had run
+  aborted: boolean;
+  // The stage that was running or next when the signal aborted
+  interruptedStage?: string;
+  timings: Record<string, number>;
+}
+
+/**
+ * An ordered list of stages with hooks around each one. Pipelines are
+ * meant to be built once and shared; per-run state lives in the context,
+ * so stages can be added or swapped at startup, e.g.
+ *
+ *   websiteImagePipeline.insertAfter("describe", moderationStage);
+ */
+export class GenerationPipeline<C, E> {
+  private stages: PipelineStage<C, E>[] = [];
+  private hooks: PipelineHooks<C>[] = [];
+
+  constructor(readonly name: string, stages: PipelineStage<C, E>[] = []) {
+    stages.forEach((stage) => this.use(stage));
+  }
+
+  get stageNames(): string[] {
+    return this.stages.map((stage) => stage.name);
+  }
+
+  // Append a stage
+  use(stage: PipelineStage<C, E>): this {
+    return this.insertAt(this.stages.length, stage);
+  }
+
+  insertBefore(name: string, stage: PipelineStage<C, E>): this {
+    return this.insertAt(this.indexOf(name), stage);
+  }
+
+  insertAfter(name: string, stage: PipelineStage<C, E>): this {
+    return this.insertAt(this.indexOf(name) + 1, stage);
+  }
+
+  replace(name: string, stage: PipelineStage<C, E>): this {
+    const index = this.indexOf(name);
+    this.stages = this.stages.filter((_, i) => i !== index);
+    return this.insertAt(index, stage);
+  }
+
+  remove(name: string): this {
+    const index = this.indexOf(name);
+    this.stages = this.stages.filter((_, i) => i !== index);
+    return this;
+  }
+
+  hook(hooks: PipelineHooks<C>): this {
+    this.hooks = [...this.hooks, hooks];
+    return this;
+  }
+
+  /**
+   * Run the stages in order until one calls `stop()`, the signal aborts or
+   * a stage throws. Errors are rethrown after the error hooks have run;
+   * errors caused by the signal aborting end the run as cancelled instead.
+   */
+  async run(context: C, options: PipelineRunOptions<E> = {}): Promise<PipelineResult> {
+    const signal = options.signal ?? new AbortController().signal;
+    const timings: Record<string, number> = {};
+    let stopped = false;
+    const controls: StageControls<E> = {
+      emit: options.onProgress ?? (() => undefined),
+      signal,
+      timings,
+      stop: () => {
+        stopped = true;
+      },
+    };
+
+    // Changes made to the pipeline during a run apply to the next one
+    const stages = this.stages;
+    const hooks = this.hooks;
+    let interruptedStage: string | undefined;
+
+    const cancelled = async (stage: string, running: boolean) => {
+      interruptedStage = stage;
+      console.log(`🚫 ${this.name} pipeline cancelled ${running ? "during" : "before"} ${stage}`);
+      for (const hook of hooks) await hook.cancel?.(stage, context);
+    };
+
+    for (const stage of stages) {
+      if (stopped) break;
+      if (stage.when && !stage.when(context)) continue;
+      if (signal.aborted) {
+        await cancelled(stage.name, false);
+        break;
+      }
+
+      for (const hook of hooks) await hook.before?.(stage.name, context);
+      const startTime = Date.now();
+      try {
+        await stage.run(context, controls);
+      } catch (error) {
+        timings[stage.name] = Date.now() - startTime;
+        if (signal.aborted) {
+          await cancelled(stage.name, true);
+          break;
+        }
+        for (const hook of hooks) await hook.error?.(stage.name, error, context);
+        throw error;
+      }
+      timings[stage.name] = Date.now() - startTime;
+      // Stages may also return early when the signal aborts
+      if (signal.aborted) {
+        await cancelled(stage.name, true);
+        break;
+      }
+      for (const hook of hooks) await hook.after?.(stage.name, context, timings[stage.name]);
+    }
+
+    console.log(
+      `⏱️ ${this.name} pipeline: ${
+        Object.entries(timings)
+          .map(([stage, ms]) => `${stage} ${ms}ms`)
+          .join(", ") || "no stages ran"
+      }`
+    );
+    return { aborted: interruptedStage !== undefined, interruptedStage, timings };
+  }
+
+  private indexOf(name: string): number {
+    const index = this.stages.findIndex((stage) => stage.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown stage "${name}" in the ${this.name} pipeline`);
+    }
+    return index;
+  }
+
+  private insertAt(index: number, stage: PipelineStage<C, E>): this {
+    if (this.stages.some((existing) => existing.name === stage.name)) {
+      throw new Error(`The ${this.name} pipeline already has a stage named "${stage.name}"`);
+    }
+    this.stages = [...this.stages.slice(0, index), stage, ...this.stages.slice(index)];
+    return this;
+  }
+}
@@ -0,0 +1,580 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { getMockHTML } from "./mock-html";
+import {
+  httpFetch,
+  getMaxBytes,
+  type HttpFetchOptions,
+  type HttpFetchResult,
+} from "./http-fetch";
+import { checkUrlAgainstPolicy } from "./network-policy";
+import { DEVICE_PROFILES, type DeviceProfile } from "./device-profiles";
+import type { Browser, HTTPRequest } from "puppeteer-core";
+
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+
+export const DEFAULT_HEADERS: Record<string, string> = {
+  "User-Agent": DEVICE_PROFILES.desktop.userAgent,
+  Accept:
+    "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+  "Accept-Encoding": "gzip, deflate, br",
+  DNT: "1",
+  Connection: "keep-alive",
+  "Upgrade-Insecure-Requests": "1",
+};
+
+export interface HtmlFetchOptions {
+  maxBytes?: number;
+  // Device to impersonate (User-Agent and, for the browser, viewport)
+  device?: DeviceProfile;
+  signal?: AbortSignal;
+}
+
+export interface HtmlFetchResult {
+  html: string;
+  finalUrl: string;
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  encoding: string;
+  truncated: boolean;
+  byteCount: number;
+  redirects: string[];
+  fetcher: string;
+}
+
+// Everything about a fetch except the body, safe to send to clients
+export type HtmlFetchDetails = Omit<HtmlFetchResult, "html">;
+
+export function fetchDetailsOf(result: HtmlFetchResult): HtmlFetchDetails {
+  const details: HtmlFetchDetails & { html?: string } = { ...result };
+  delete details.html;
+  return details;
+}
+
+export type ResourceFetchOptions = Pick<
+  HttpFetchOptions,
+  "headers" | "maxBytes" | "allowedContentTypes" | "signal"
+>;
+
+export abstract class HtmlFetcher {
+  abstract readonly name: string;
+
+  abstract fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult>;
+
+  /**
+   * Fetch a file the page links to, such as a stylesheet, the same way the
+   * page was reached. Fetchers that only read local copies leave this out.
+   */
+  fetchResource?(
+    url: string,
+    options?: ResourceFetchOptions
+  ): Promise<HttpFetchResult>;
+
+  protected requestHeaders(options?: HtmlFetchOptions): Record<string, string> {
+    return options?.device
+      ? { ...DEFAULT_HEADERS, "User-Agent": options.device.userAgent }
+      : { ...DEFAULT_HEADERS };
+  }
+
+  /**
+   * Build a result for fetchers that read from local storage rather than HTTP
+   */
+  protected localResult(
+    url: string,
+    html: string,
+    options?: HtmlFetchOptions
+  ): HtmlFetchResult {
+    return localHtmlResult(url, html, this.name, options);
+  }
+}
+
+/**
+ * Wrap HTML that did not come over HTTP in a fetch result, applying the same
+ * size limit as fetched pages
+ */
+export function localHtmlResult(
+  url: string,
+  html: string,
+  fetcher: string,
+  options?: HtmlFetchOptions
+): HtmlFetchResult {
+  const maxBytes = getMaxBytes(options?.maxBytes);
+  const bytes = Buffer.from(html, "utf8");
+  const truncated = bytes.byteLength > maxBytes;
+  const body = truncated
+    ? new TextDecoder("utf-8").decode(bytes.subarray(0, maxBytes))
+    : html;
+
+  return {
+    html: body,
+    finalUrl: url,
+    status: 200,
+    headers: {},
+    contentType: "text/html; charset=utf-8",
+    encoding: "utf-8",
+    truncated,
+    byteCount: Math.min(bytes.byteLength, maxBytes),
+    redirects: [],
+    fetcher,
+  };
+}
+
+/**
+ * Fetches the page straight from the origin server, pinned to addresses that
+ * pass the network policy.
+ */
+export class DirectHtmlFetcher extends HtmlFetcher {
+  readonly name = "direct";
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    const { body, ...details } = await httpFetch(url, {
+      headers: this.requestHeaders(options),
+      maxBytes: options?.maxBytes,
+      signal: options?.signal,
+    });
+
+    return { html: body, ...details, fetcher: this.name };
+  }
+
+  fetchResource(
+    url: string,
+    options?: ResourceFetchOptions
+  ): Promise<HttpFetchResult> {
+    return httpFetch(url, options);
+  }
+}
+
+/**
+ * Fetches the page through a self-hosted proxy. The proxy URL may contain a
+ * `{url}` placeholder; otherwise the target is appended as a `url` query
+ * parameter. The proxy is expected to return the raw HTML body.
+ */
+export class ProxyHtmlFetcher extends HtmlFetcher {
+  readonly name = "proxy";
+
+  constructor(
+    private readonly proxyUrl: string,
+    private readonly authToken?: string
+  ) {
+    super();
+  }
+
+  private buildProxyUrl(url: string): string {
+    const encoded = encodeURIComponent(url);
+    if (this.proxyUrl.includes("{url}")) {
+      return this.proxyUrl.replace("{url}", encoded);
+    }
+    const separator = this.proxyUrl.includes("?") ? "&" : "?";
+    return `${this.proxyUrl}${separator}url=${encoded}`;
+  }
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    const { body, ...details } = await this.fetchViaProxy(url, {
+      headers: this.requestHeaders(options),
+      maxBytes: options?.maxBytes,
+      signal: options?.signal,
+    });
+    return { html: body, ...details, fetcher: this.name };
+  }
+
+  fetchResource(
+    url: string,
+    options?: ResourceFetchOptions
+  ): Promise<HttpFetchResult> {
+    return this.fetchViaProxy(url, options);
+  }
+
+  private async fetchViaProxy(
+    url: string,
+    options: ResourceFetchOptions = {}
+  ): Promise<HttpFetchResult> {
+    const headers = { ...options.headers };
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    // The proxy itself is trusted config, but the target must still be public
+    await checkUrlAgainstPolicy(url);
+
+    const result = await httpFetch(this.buildProxyUrl(url), {
+      ...options,
+      headers,
+      enforceNetworkPolicy: false,
+    });
+
+    // Report the target rather than the proxy endpoint as the final URL
+    return { ...result, finalUrl: url, redirects: [] };
+  }
+}
+
+/**
+ * Reads pages from a local fixture directory laid out as
+ * `<dir>/<hostname>/<path>.html`, with `index.html` for directory paths.
+ */
+export class FixtureHtmlFetcher extends HtmlFetcher {
+  readonly name = "fixture";
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  private fixturePathFor(url: string): string {
+    const { hostname, pathname } = new URL(url);
+    let relativePath = decodeURIComponent(pathname);
+    if (relativePath.endsWith("/")) {
+      relativePath += "index.html";
+    } else if (!relativePath.endsWith(".html")) {
+      relativePath += ".html";
+    }
+
+    const root = path.resolve(this.directory);
+    const resolved = path.resolve(root, hostname, `.${relativePath}`);
+
+    // Never read outside the fixture directory
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Fixture path escapes fixture directory: ${url}`);
+    }
+    return resolved;
+  }
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    const fixturePath = this.fixturePathFor(url);
+    let html: string;
+    try {
+      html = await fs.readFile(fixturePath, "utf8");
+    } catch {
+      throw new Error(`No fixture found for ${url} at ${fixturePath}`);
+    }
+    return this.localResult(url, html, options);
+  }
+}
+
+interface RecordedPage {
+  url: string;
+  recordedAt: number;
+  html: string;
+}
+
+/**
+ * Serves pages from a recorded-replay store. In "record" mode, misses are
+ * fetched directly and written to the store; in "replay" mode, misses fail.
+ */
+export class ReplayHtmlFetcher extends HtmlFetcher {
+  readonly name = "replay";
+
+  constructor(
+    private readonly directory: string,
+    private readonly mode: "replay" | "record" = "replay",
+    private readonly recorder: HtmlFetcher = new DirectHtmlFetcher()
+  ) {
+    super();
+  }
+
+  private recordingPathFor(url: string, device?: DeviceProfile): string {
+    // Desktop recordings keep their original URL-only key
+    const key =
+      device && device.name !== "desktop" ? `${device.name}:${url}` : url;
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    const recordingPath = this.recordingPathFor(url, options?.device);
+
+    try {
+      const recording: RecordedPage = JSON.parse(
+        await fs.readFile(recordingPath, "utf8")
+      );
+      return this.localResult(url, recording.html, options);
+    } catch {
+      if (this.mode !== "record") {
+        throw new Error(`No recording found for ${url}`);
+      }
+    }
+
+    console.log(`📼 Recording ${url} for replay`);
+    const result = await this.recorder.fetch(url, options);
+    const recording: RecordedPage = {
+      url,
+      recordedAt: Date.now(),
+      html: result.html,
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(recordingPath, JSON.stringify(recording), "utf8");
+
+    return { ...result, fetcher: this.name };
+  }
+}
+
+const DEFAULT_BROWSER_TIMEOUT_MS = 20000;
+// Not needed to capture the DOM, and the bulk of a page's bytes
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font"]);
+
+/**
+ * Renders the page in headless Chromium and captures the DOM after
+ * JavaScript has run, for SPAs whose raw HTML is an empty app shell.
+ * Every request the page makes, including redirects, is checked against the
+ * network policy. Connects to `BROWSER_WS_ENDPOINT` when set, otherwise
+ * launches `CHROMIUM_EXECUTABLE_PATH`.
+ */
+export class BrowserHtmlFetcher extends HtmlFetcher {
+  readonly name = "browser";
+
+  constructor(
+    private readonly executablePath?: string,
+    private readonly browserWSEndpoint?: string,
+    private readonly timeoutMs: number = DEFAULT_BROWSER_TIMEOUT_MS
+  ) {
+    super();
+  }
+
+  private async openBrowser(): Promise<Browser> {
+    const puppeteer = await import("puppeteer-core");
+
+    if (this.browserWSEndpoint) {
+      return puppeteer.connect({ browserWSEndpoint: this.browserWSEndpoint });
+    }
+    if (!this.executablePath) {
+      throw new Error(
+        "Browser fetcher needs CHROMIUM_EXECUTABLE_PATH or BROWSER_WS_ENDPOINT"
+      );
+    }
+    return puppeteer.launch({
+      executablePath: this.executablePath,
+      headless: true,
+      args: ["--no-sandbox", "--disable-dev-shm-usage", "--disable-gpu"],
+    });
+  }
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    await checkUrlAgainstPolicy(url);
+    options?.signal?.throwIfAborted();
+
+    const browser = await this.openBrowser();
+    const release = () =>
+      this.browserWSEndpoint ? browser.disconnect() : browser.close();
+    // Closing the browser makes a pending navigation reject
+    const onAbort = () => {
+      release().catch(() => {});
+    };
+    options?.signal?.addEventListener("abort", onAbort, { once: true });
+    // Hosts resolve once per fetch; the page may request the same host a lot
+    const hostChecks = new Map<string, Promise<boolean>>();
+    const isAllowed = (requestUrl: string): Promise<boolean> => {
+      if (requestUrl.startsWith("data:") || requestUrl.startsWith("blob:")) {
+        return Promise.resolve(true);
+      }
+      let origin: string;
+      try {
+        origin = new URL(requestUrl).origin;
+      } catch {
+        return Promise.resolve(false);
+      }
+      if (!hostChecks.has(origin)) {
+        hostChecks.set(
+          origin,
+          checkUrlAgainstPolicy(requestUrl).then(
+            () => true,
+            () => false
+          )
+        );
+      }
+      return hostChecks.get(origin)!;
+    };
+
+    try {
+      const page = await browser.newPage();
+      const device = options?.device || DEVICE_PROFILES.desktop;
+      await page.setUserAgent(device.userAgent);
+      await page.setViewport({
+        width: device.viewport.width,
+        height: device.viewport.height,
+        isMobile: device.viewport.isMobile,
+        hasTouch: device.viewport.isMobile,
+      });
+      await page.setExtraHTTPHeaders({
+        "Accept-Language": DEFAULT_HEADERS["Accept-Language"],
+      });
+      await page.setRequestInterception(true);
+
+      page.on("request", (request: HTTPRequest) => {
+        if (BLOCKED_RESOURCE_TYPES.has(request.resourceType())) {
+          request.abort().catch(() => {});
+          return;
+        }
+        isAllowed(request.url()).then((allowed) => {
+          if (!allowed) {
+            console.log(`🚫 Browser request blocked by network policy: ${request.url()}`);
+          }
+          (allowed ? request.continue() : request.abort("blockedbyclient")).catch(
+            () => {}
+          );
+        });
+      });
+
+      let response = null;
+      try {
+        response = await page.goto(url, {
+          waitUntil: "networkidle2",
+          timeout: this.timeoutMs,
+        });
+      } catch (error) {
+        // Pages that never go idle (long polling, analytics beacons) still
+        // have a usable DOM once the main document has loaded
+        if (!(error instanceof Error && error.name === "TimeoutError")) {
+          throw error;
+        }
+        console.warn(`⏱️ Browser fetch for ${url} did not reach network idle`);
+      }
+
+      if (response && !response.ok()) {
+        throw new Error(
+          `Failed to fetch URL: ${response.status()} ${response.statusText()}`
+        );
+      }
+
+      const contentType = response?.headers()["content-type"] || "text/html";
+      const mimeType = contentType.split(";")[0].trim().toLowerCase();
+      if (!HTML_CONTENT_TYPES.includes(mimeType)) {
+        throw new Error(`Unsupported content type: ${mimeType}`);
+      }
+
+      options?.signal?.throwIfAborted();
+      const finalUrl = page.url();
+      const html = await page.content();
+
+      return {
+        ...this.localResult(finalUrl, html, options),
+        status: response?.status() || 200,
+        headers: response?.headers() || {},
+        contentType,
+        redirects:
+          response?.request().redirectChain().map((request) => request.url()) ||
+          [],
+      };
+    } finally {
+      options?.signal?.removeEventListener("abort", onAbort);
+      // onAbort has released it already
+      if (!options?.signal?.aborted) {
+        await release();
+      }
+    }
+  }
+
+  // The browser loads linked files straight from the origin too
+  fetchResource(
+    url: string,
+    options?: ResourceFetchOptions
+  ): Promise<HttpFetchResult> {
+    return httpFetch(url, options);
+  }
+}
+
+/**
+ * Returns a generated demo page instead of fetching anything.
+ */
+export class MockHtmlFetcher extends HtmlFetcher {
+  readonly name = "mock";
+
+  async fetch(
+    url: string,
+    options?: HtmlFetchOptions
+  ): Promise<HtmlFetchResult> {
+    return this.localResult(url, getMockHTML(url), options);
+  }
+}
+
+export class HtmlFetcherFactory {
+  private static fetchers = new Map<string, HtmlFetcher>();
+
+  static {
+    this.register(new DirectHtmlFetcher());
+    this.register(new MockHtmlFetcher());
+
+    if (process.env.HTML_PROXY_URL) {
+      this.register(
+        new ProxyHtmlFetcher(
+          process.env.HTML_PROXY_URL,
+          process.env.HTML_PROXY_AUTH_TOKEN
+        )
+      );
+    }
+
+    if (process.env.HTML_FIXTURE_DIR) {
+      this.register(new FixtureHtmlFetcher(process.env.HTML_FIXTURE_DIR));
+    }
+
+    if (process.env.ENABLE_BROWSER_FETCH === "true") {
+      this.register(
+        new BrowserHtmlFetcher(
+          process.env.CHROMIUM_EXECUTABLE_PATH,
+          process.env.BROWSER_WS_ENDPOINT,
+          Number(process.env.BROWSER_FETCH_TIMEOUT_MS) || undefined
+        )
+      );
+    }
+
+    if (process.env.HTML_REPLAY_DIR) {
+      this.register(
+        new ReplayHtmlFetcher(
+          process.env.HTML_REPLAY_DIR,
+          process.env.HTML_REPLAY_MODE === "record" ? "record" : "replay"
+        )
+      );
+    }
+  }
+
+  static register(fetcher: HtmlFetcher): void {
+    this.fetchers.set(fetcher.name, fetcher);
+  }
+
+  static getFetcher(name: string): HtmlFetcher {
+    const fetcher = this.fetchers.get(name);
+    if (!fetcher) {
+      throw new Error(
+        `Unknown HTML fetcher: ${name} (available: ${this.getAvailableFetchers().join(", ")})`
+      );
+    }
+    return fetcher;
+  }
+
+  static getAvailableFetchers(): string[] {
+    return Array.from(this.fetchers.keys());
+  }
+
+  /**
+   * Resolve the ordered fallback chain for a request. Per-request names take
+   * precedence over HTML_FETCH_STRATEGIES, which defaults to "direct".
+   */
+  static resolveChain(names?: string[]): HtmlFetcher[] {
+    const configured = (process.env.HTML_FETCH_STRATEGIES || "direct")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+
+    const chain = names && names.length > 0 ? names : configured;
+    return chain.map((name) => this.getFetcher(name));
+  }
+}
@@ -1,10 +1,12 @@
 import { cleanHTML } from "./clean-html";
+import { precleanHTML, precleanRulesFromEnv, shouldSkipLLMClean } from "./preclean-html";
 import {
   ImageProviderFactory,
   SmartImageProvider,
   type ImageGenerationOptions,
   type ImageGenerationResult,
 } from "./image-providers";
+import { createConcurrencyLimiter, providerRateLimiter } from "./rate-limit";
 
 export interface HTMLToImageOptions extends ImageGenerationOptions {
   model?: "dall-e-3" | "gpt-image-1";
@@ -20,6 +22,11 @@ export interface HTMLToImageResult extends ImageGenerationResult {
   finalPromptLength: number;
 }
 
+export interface BatchHTMLToImageOptions extends HTMLToImageOptions {
+  // Documents rendered at once; provider calls also respect PROVIDER_RATE_LIMITS
+  concurrency?: number;
+}
+
 export async function generateImageFromHTML(
   htmlContent: string,
   options?: HTMLToImageOptions
@@ -35,17 +42,20 @@ export async function generateImageFromHTML(
   const originalHTMLLength = htmlContent.length;
   let processedContent = htmlContent;
 
-  // Step 1: Clean HTML if requested
+  // Step 1: Clean HTML if requested, skipping the LLM for small pages
   if (cleanFirst) {
     console.log(`Cleaning HTML (${originalHTMLLength} chars)...`);
-    processedContent = await cleanHTML(htmlContent, cleanMaxTokens);
+    processedContent = precleanHTML(htmlContent, precleanRulesFromEnv()).html;
+    if (!shouldSkipLLMClean(processedContent)) {
+      processedContent = await cleanHTML(processedContent, cleanMaxTokens);
+    }
     console.log(`Cleaned HTML to ${processedContent.length} chars`);
   }
 
   // Step 2: Create prompt for image generation
   const imagePrompt = createImagePrompt(processedContent);
 
-  // Step 3: Generate image
+  // Step 3: Generate image, taking a rate limit slot for every provider call
   if (fallbackEnabled) {
     const smartProvider = new SmartImageProvider([model, 
       model === "dall-e-3" ? "gpt-image-1" : "dall-e-3"
@@ -54,6 +64,7 @@ export async function generateImageFromHTML(
     const result = await smartProvider.generate(imagePrompt, {
       ...imageOptions,
       preferredModel: model,
+      beforeAttempt: (modelName) => providerRateLimiter.acquire(modelName, imageOptions.signal),
     });
 
     return {
@@ -64,7 +75,10 @@ export async function generateImageFromHTML(
     };
   } else {
     const provider = ImageProviderFactory.getProvider(model);
-    const result = await provider.generate(imagePrompt, imageOptions);
+    const result = await provider.generate(imagePrompt, {
+      ...imageOptions,
+      beforeRequest: () => providerRateLimiter.acquire(model, imageOptions.signal),
+    });
 
     return {
       ...result,
@@ -97,28 +111,26 @@ ${htmlContent}
 
 export async function batchGenerateImagesFromHTML(
   htmlContents: string[],
-  options?: HTMLToImageOptions
+  options?: BatchHTMLToImageOptions
 ): Promise<HTMLToImageResult[]> {
-  const results: HTMLToImageResult[] = [];
-  
-  for (let i = 0; i < htmlContents.length; i++) {
-    console.log(`Generating image ${i + 1}/${htmlContents.length}...`);
-    
-    try {
-      const result = await generateImageFromHTML(htmlContents[i], options);
-      results.push(result);
-    } catch (error) {
-      console.error(`Failed to generate image ${i + 1}:`, error);
-      throw error;
-    }
-
-    // Add delay between requests to avoid rate limiting
-    if (i < htmlContents.length - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-    }
-  }
-
-  return results;
+  const { concurrency = 1, ...imageOptions } = options || {};
+  const limit = createConcurrencyLimiter(concurrency);
+
+  // Results keep the input order; the first failure rejects the batch
+  return Promise.all(
+    htmlContents.map((htmlContent, i) =>
+      limit(async () => {
+        console.log(`Generating image ${i + 1}/${htmlContents.length}...`);
+
+        try {
+          return await generateImageFromHTML(htmlContent, imageOptions);
+        } catch (error) {
+          console.error(`Failed to generate image ${i + 1}:`, error);
+          throw error;
+        }
+      })
+    )
+  );
 }
 
 export class HTMLImageGenerator {
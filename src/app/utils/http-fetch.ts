@@ -0,0 +1,215 @@
+import { pinnedFetch } from "./network-policy";
+
+const DEFAULT_MAX_BYTES = 1024 * 1024; // 1 MB of HTML is already ~250k tokens
+const DEFAULT_MAX_REDIRECTS = 5;
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+
+export interface HttpFetchOptions {
+  headers?: Record<string, string>;
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Content types (without parameters) accepted for the final response
+  allowedContentTypes?: string[];
+  // Resolve, check and pin every hop (disable only for trusted endpoints)
+  enforceNetworkPolicy?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface HttpFetchResult {
+  body: string;
+  finalUrl: string;
+  status: number;
+  headers: Record<string, string>;
+  contentType: string;
+  encoding: string;
+  truncated: boolean;
+  byteCount: number;
+  redirects: string[];
+}
+
+export function getMaxBytes(maxBytes?: number): number {
+  if (maxBytes && maxBytes > 0) return maxBytes;
+  const configured = Number(process.env.HTML_FETCH_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_MAX_BYTES;
+}
+
+function getMaxRedirects(maxRedirects?: number): number {
+  if (maxRedirects !== undefined && maxRedirects >= 0) return maxRedirects;
+  const configured = Number(process.env.HTML_FETCH_MAX_REDIRECTS);
+  return Number.isInteger(configured) && configured >= 0
+    ? configured
+    : DEFAULT_MAX_REDIRECTS;
+}
+
+/**
+ * Fetch a URL, following redirects manually so every hop is reported and
+ * checked against the network policy, and read at most `maxBytes` of the
+ * body with charset detection.
+ */
+export async function httpFetch(
+  url: string,
+  options: HttpFetchOptions = {}
+): Promise<HttpFetchResult> {
+  const maxRedirects = getMaxRedirects(options.maxRedirects);
+  const redirects: string[] = [];
+  let currentUrl = url;
+  let response: Response;
+
+  while (true) {
+    response =
+      options.enforceNetworkPolicy === false
+        ? await fetch(currentUrl, {
+            headers: options.headers,
+            redirect: "manual",
+            signal: options.signal,
+          })
+        : await pinnedFetch(currentUrl, {
+            headers: options.headers,
+            signal: options.signal,
+          });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+
+    if (redirects.length >= maxRedirects) {
+      await response.body?.cancel();
+      throw new Error(`Too many redirects (more than ${maxRedirects})`);
+    }
+
+    await response.body?.cancel();
+    redirects.push(currentUrl);
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(
+      `Failed to fetch URL: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const allowedContentTypes = options.allowedContentTypes || HTML_CONTENT_TYPES;
+
+  // A missing content type is tolerated; the binary check below still applies
+  if (mimeType && !allowedContentTypes.includes(mimeType)) {
+    await response.body?.cancel();
+    throw new Error(`Unsupported content type: ${mimeType}`);
+  }
+
+  const { bytes, truncated } = await readBody(
+    response,
+    getMaxBytes(options.maxBytes)
+  );
+
+  if (looksBinary(bytes)) {
+    throw new Error("Response body looks like binary content, not text");
+  }
+
+  const encoding = detectEncoding(contentType, bytes);
+
+  return {
+    body: new TextDecoder(encoding).decode(bytes),
+    finalUrl: currentUrl,
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    contentType,
+    encoding,
+    truncated,
+    byteCount: bytes.byteLength,
+    redirects,
+  };
+}
+
+/**
+ * Read a response body, stopping once `maxBytes` have been received.
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return { bytes: new Uint8Array(0), truncated: false };
+  }
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (received + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    received += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, truncated };
+}
+
+function looksBinary(bytes: Uint8Array): boolean {
+  // UTF-16 text legitimately contains NUL bytes, so honor its BOM
+  if (
+    bytes.length >= 2 &&
+    ((bytes[0] === 0xff && bytes[1] === 0xfe) ||
+      (bytes[0] === 0xfe && bytes[1] === 0xff))
+  ) {
+    return false;
+  }
+  return bytes.subarray(0, 1024).includes(0);
+}
+
+function isSupportedEncoding(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the body encoding from a BOM, the Content-Type header or a
+ * `<meta charset>` declaration, in that order. Defaults to UTF-8.
+ */
+export function detectEncoding(contentType: string, bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  const headerCharset = /charset\s*=\s*["']?([\w.:-]+)/i.exec(contentType)?.[1];
+  if (headerCharset && isSupportedEncoding(headerCharset)) {
+    return headerCharset.toLowerCase();
+  }
+
+  // Meta declarations must appear within the first 1024 bytes
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  const metaCharset =
+    /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1];
+  if (metaCharset && isSupportedEncoding(metaCharset)) {
+    return metaCharset.toLowerCase();
+  }
+
+  return "utf-8";
+}
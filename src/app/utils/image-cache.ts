@@ -1,5 +1,13 @@
-import { put, head, type PutBlobResult } from '@vercel/blob';
 import crypto from 'crypto';
+import { CacheStoreFactory } from './cache-store';
+import { canonicalUrlRulesFromEnv, tryCanonicalizeUrl } from './canonical-url';
+import {
+  ARTIFACT_PREFIX,
+  ARTIFACT_VERSIONS,
+  generateArtifactKey,
+  isDeadArtifact,
+  type ArtifactStage,
+} from './artifact-cache';
 
 export interface CachedImageResult {
   base64: string;
@@ -7,6 +15,16 @@ export interface CachedImageResult {
   revisedPrompt?: string;
   cached: boolean;
   blobUrl?: string;
+  // When the entry was written (ms since epoch)
+  cachedAt?: number;
+  // Older than the freshness window; still served, but should be regenerated
+  stale?: boolean;
+  // Hash of the pre-cleaned HTML the image was generated from
+  contentHash?: string;
+  // Last time the live page was confirmed to still match contentHash
+  validatedAt?: number;
+  // Set when another model than the key's provider drew the image
+  model?: string;
 }
 
 export interface CacheMetadata {
@@ -14,14 +32,77 @@ export interface CacheMetadata {
   timestamp: number;
   revisedPrompt?: string;
   mediaType: string;
+  device?: string;
+  provider?: string;
+  // Entries past this time (ms since epoch) are treated as misses
+  expiresAt?: number;
+  contentHash?: string;
+  validatedAt?: number;
+  // The model that drew the image, when it isn't `provider` (after a fallback)
+  model?: string;
+}
+
+const CACHE_PREFIX = 'image-cache/';
+const CACHE_DEVICES = ['desktop', 'tablet', 'mobile'];
+
+// How long a cached image stays valid; 0 disables expiry
+function cacheTtlMs(): number {
+  const hours = Number(process.env.CACHE_TTL_HOURS ?? 168);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+// Entries older than this are served stale and refreshed; 0 never marks them stale
+function cacheFreshMs(): number {
+  const minutes = Number(process.env.CACHE_FRESH_MINUTES ?? 1440);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+// Re-fetch and compare content hashes for hits older than this; 0 disables
+function cacheRevalidateMs(): number {
+  const minutes = Number(process.env.CACHE_REVALIDATE_MINUTES ?? 60);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+// Equivalent URLs share one entry; content ids for raw HTML are used as-is
+function cacheUrlFor(url: string): string {
+  return url.startsWith('html:') ? url : tryCanonicalizeUrl(url, canonicalUrlRulesFromEnv());
 }
 
 /**
- * Generate a consistent cache key for a URL and provider using URL-encoded name + hash
+ * Build the hashed cache input. Desktop renders have no device suffix.
  */
-export function generateCacheKey(url: string, provider?: string): string {
+function cacheInputFor(url: string, provider?: string, device?: string): string {
   // Include provider in the hash to create unique keys per model
   const cacheInput = provider ? `${url}_${provider}` : url;
+  return device && device !== 'desktop' ? `${cacheInput}_${device}` : cacheInput;
+}
+
+function deviceSegmentFor(device?: string): string {
+  return device && device !== 'desktop' ? `_${device.replace(/[^a-zA-Z0-9-]/g, '_')}` : '';
+}
+
+function providerDirFor(provider?: string): string {
+  return provider ? provider.replace(/[^a-zA-Z0-9-.]/g, '_') : 'default';
+}
+
+// Raw HTML input has no host and is grouped under "html"
+function hostDirFor(url: string): string {
+  if (url.startsWith('html:')) return 'html';
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/[^a-z0-9-.]/g, '_') || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Generate a consistent cache key for a URL, provider and device using URL-encoded name + hash.
+ * Each key holds one JSON entry with both the image and its metadata, grouped
+ * as `image-cache/<provider>/<host>/...` so purges can list by prefix.
+ */
+export function generateCacheKey(rawUrl: string, provider?: string, device?: string): string {
+  const url = cacheUrlFor(rawUrl);
+  const cacheInput = cacheInputFor(url, provider, device);
   
   // URL-encode the URL for the filename, but limit length and add hash for uniqueness
   const encodedUrl = encodeURIComponent(url)
@@ -31,84 +112,89 @@ export function generateCacheKey(url: string, provider?: string): string {
   // Create a hash of the URL + provider for uniqueness
   const hash = crypto.createHash('sha256').update(cacheInput).digest('hex').substring(0, 16);
   
-  // Include provider in filename if provided
-  const providerSegment = provider ? `_${provider.replace(/[^a-zA-Z0-9-]/g, '_')}` : '';
-  
-  return `image-cache/${encodedUrl}${providerSegment}_${hash}.png`;
+  return `${CACHE_PREFIX}${providerDirFor(provider)}/${hostDirFor(url)}/${encodedUrl}${deviceSegmentFor(device)}_${hash}.json`;
 }
 
 /**
- * Generate a metadata key for storing additional info about cached images
+ * Hash of pre-cleaned HTML used to detect page changes. Whitespace is
+ * collapsed so reformatting alone doesn't count as a change.
  */
-export function generateMetadataKey(url: string, provider?: string): string {
-  // Include provider in the hash to create unique keys per model
-  const cacheInput = provider ? `${url}_${provider}` : url;
-  
-  // URL-encode the URL for the filename, but limit length and add hash for uniqueness
-  const encodedUrl = encodeURIComponent(url)
-    .replace(/[.*+?^${}()|[\]\\]/g, '_') // Replace regex special chars
-    .substring(0, 100); // Limit length
-  
-  const hash = crypto.createHash('sha256').update(cacheInput).digest('hex').substring(0, 16);
-  
-  // Include provider in filename if provided
-  const providerSegment = provider ? `_${provider.replace(/[^a-zA-Z0-9-]/g, '_')}` : '';
-  
-  return `image-metadata/${encodedUrl}${providerSegment}_${hash}.json`;
+export function hashPageContent(precleanedHtml: string): string {
+  const normalized = precleanedHtml.replace(/\s+/g, ' ').replace(/> </g, '><').trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
 }
 
 /**
- * Check if an image is cached in Vercel Blob storage
+ * Whether a cache hit should be checked against the live page before it is
+ * served. Entries without a content hash can't be compared and are skipped.
  */
-export async function getCachedImage(url: string, provider?: string): Promise<CachedImageResult | null> {
-  try {
-    const imageKey = generateCacheKey(url, provider);
-    const metadataKey = generateMetadataKey(url, provider);
+export function needsRevalidation(cached: CachedImageResult): boolean {
+  const revalidateMs = cacheRevalidateMs();
+  if (!revalidateMs || !cached.contentHash) return false;
+  const checkedAt = cached.validatedAt ?? cached.cachedAt ?? 0;
+  return Date.now() - checkedAt > revalidateMs;
+}
 
-    console.log(`🔍 Checking cache for URL: ${url}`);
-    console.log(`🔍 Image key: ${imageKey}`);
-    console.log(`🔍 Metadata key: ${metadataKey}`);
+/**
+ * Cache identity for raw HTML input, used in place of a URL. The base URL is
+ * part of it because it changes how stylesheets resolve.
+ */
+export function generateContentCacheId(html: string, baseUrl?: string): string {
+  const hash = crypto.createHash('sha256').update(`${baseUrl || ''}\n${html}`).digest('hex');
+  return `html:${hash}`;
+}
 
-    // Check if both image and metadata exist
-    const [imageExists, metadataExists] = await Promise.all([
-      checkBlobExists(imageKey),
-      checkBlobExists(metadataKey)
-    ]);
+interface CacheEntry {
+  metadata: CacheMetadata;
+  // Base64-encoded image bytes
+  image: string;
+}
+
+/**
+ * Check if an image is cached in the configured cache store
+ */
+export async function getCachedImage(
+  url: string,
+  provider?: string,
+  device?: string
+): Promise<CachedImageResult | null> {
+  try {
+    const store = CacheStoreFactory.getStore();
+    const key = generateCacheKey(url, provider, device);
+
+    console.log(`🔍 Checking ${store.name} cache for URL: ${url}`);
+    console.log(`🔍 Cache key: ${key}`);
 
-    if (!imageExists || !metadataExists) {
+    // Image and metadata live in one entry, so a hit is a single read
+    const stored = await store.get(key);
+    if (!stored) {
       console.log(`❌ Cache miss for URL: ${url}`);
       return null;
     }
 
-    console.log(`✅ Cache hit for URL: ${url}`);
-
-    // Fetch both the image and metadata using the blob URLs from head() response
-    const imageHeadResponse = await head(imageKey);
-    const metadataHeadResponse = await head(metadataKey);
-    
-    // Fetch the actual content
-    const [imageBlob, metadataBlob] = await Promise.all([
-      fetch(imageHeadResponse.url),
-      fetch(metadataHeadResponse.url)
-    ]);
-
-    if (!imageBlob.ok || !metadataBlob.ok) {
-      console.log(`❌ Failed to fetch cached data for URL: ${url}`);
+    const entry: CacheEntry = JSON.parse(stored.body);
+    if (entry.metadata.expiresAt && entry.metadata.expiresAt <= Date.now()) {
+      console.log(`⏰ Cache entry expired for URL: ${url}`);
       return null;
     }
 
-    const imageBuffer = await imageBlob.arrayBuffer();
-    const metadata: CacheMetadata = await metadataBlob.json();
-
-    // Convert to base64
-    const base64 = Buffer.from(imageBuffer).toString('base64');
+    const freshMs = cacheFreshMs();
+    // A page confirmed unchanged counts as fresh from that check
+    const freshSince = entry.metadata.validatedAt ?? entry.metadata.timestamp;
+    const stale = freshMs > 0 && Date.now() - freshSince > freshMs;
+    console.log(`✅ Cache hit for URL: ${url}${stale ? ' (stale)' : ''}`);
 
     return {
-      base64,
-      mediaType: metadata.mediaType,
-      revisedPrompt: metadata.revisedPrompt,
+      base64: entry.image,
+      mediaType: entry.metadata.mediaType,
+      revisedPrompt: entry.metadata.revisedPrompt,
       cached: true,
-      blobUrl: imageHeadResponse.url,
+      blobUrl: stored.url,
+      cachedAt: entry.metadata.timestamp,
+      stale,
+      contentHash: entry.metadata.contentHash,
+      validatedAt: entry.metadata.validatedAt,
+      model: entry.metadata.model,
     };
   } catch (error) {
     console.error(`❌ Error checking cache for ${url}:`, error);
@@ -117,7 +203,7 @@ export async function getCachedImage(url: string, provider?: string): Promise<Ca
 }
 
 /**
- * Store an image in Vercel Blob storage
+ * Store an image in the configured cache store
  */
 export async function cacheImage(
   url: string,
@@ -125,47 +211,41 @@ export async function cacheImage(
     base64: string;
     mediaType: string;
     revisedPrompt?: string;
+    contentHash?: string;
+    // The model that drew the image, when it isn't `provider`
+    model?: string;
   },
-  provider?: string
+  provider?: string,
+  device?: string
 ): Promise<void> {
   try {
-    const imageKey = generateCacheKey(url, provider);
-    const metadataKey = generateMetadataKey(url, provider);
-
-    console.log(`💾 Caching image for URL: ${url}`);
-    console.log(`💾 Image key: ${imageKey}`);
-    console.log(`💾 Metadata key: ${metadataKey}`);
-
-    // Convert base64 to buffer
-    const imageBuffer = Buffer.from(imageData.base64, 'base64');
-
-    // Create metadata
-    const metadata: CacheMetadata = {
-      originalUrl: url,
-      timestamp: Date.now(),
-      revisedPrompt: imageData.revisedPrompt,
-      mediaType: imageData.mediaType,
+    const store = CacheStoreFactory.getStore();
+    const key = generateCacheKey(url, provider, device);
+
+    console.log(`💾 Caching image in ${store.name} store for URL: ${url}`);
+    console.log(`💾 Cache key: ${key}`);
+
+    const timestamp = Date.now();
+    const ttlMs = cacheTtlMs();
+    const entry: CacheEntry = {
+      metadata: {
+        originalUrl: url,
+        timestamp,
+        revisedPrompt: imageData.revisedPrompt,
+        mediaType: imageData.mediaType,
+        device,
+        provider,
+        expiresAt: ttlMs ? timestamp + ttlMs : undefined,
+        contentHash: imageData.contentHash,
+        validatedAt: imageData.contentHash ? timestamp : undefined,
+        model: imageData.model,
+      },
+      image: imageData.base64,
     };
 
-    // Store both image and metadata in parallel
-    const [imageResult, metadataResult] = await Promise.all([
-      put(imageKey, imageBuffer, {
-        contentType: imageData.mediaType,
-        access: 'public',
-        addRandomSuffix: false, // Use exact key for consistency
-        allowOverwrite: true, // Allow overwriting existing blobs
-      }),
-      put(metadataKey, JSON.stringify(metadata), {
-        contentType: 'application/json',
-        access: 'public',
-        addRandomSuffix: false,
-        allowOverwrite: true, // Allow overwriting existing blobs
-      })
-    ]);
+    await store.set(key, JSON.stringify(entry), 'application/json');
 
     console.log(`✅ Successfully cached image for URL: ${url}`);
-    console.log(`📄 Image blob URL: ${imageResult.url}`);
-    console.log(`📄 Metadata blob URL: ${metadataResult.url}`);
   } catch (error) {
     console.error(`❌ Error caching image for ${url}:`, error);
     // Don't throw here - caching failures shouldn't break the main flow
@@ -173,32 +253,143 @@ export async function cacheImage(
 }
 
 /**
- * Check if a blob exists (using HEAD request)
+ * Record that the live page still matches a cached image, so the next
+ * revalidation waits a full CACHE_REVALIDATE_MINUTES again
  */
-async function checkBlobExists(key: string): Promise<boolean> {
+export async function markCacheValidated(
+  url: string,
+  provider?: string,
+  device?: string
+): Promise<void> {
   try {
-    await head(key);
-    return true;
+    const store = CacheStoreFactory.getStore();
+    const key = generateCacheKey(url, provider, device);
+    const stored = await store.get(key);
+    if (!stored) return;
+
+    const entry: CacheEntry = JSON.parse(stored.body);
+    entry.metadata.validatedAt = Date.now();
+    await store.set(key, JSON.stringify(entry), 'application/json');
   } catch (error) {
-    return false;
+    console.error(`❌ Error marking cache entry validated for ${url}:`, error);
   }
 }
 
+export interface CachePurgeFilter {
+  // Exact URL (or content cache id); matches every provider and device
+  url?: string;
+  // Hostname; subdomains are included
+  domain?: string;
+  provider?: string;
+}
+
+/**
+ * Delete cached images matching every given filter. Returns the number of
+ * entries removed.
+ */
+export async function purgeCache(filter: CachePurgeFilter): Promise<number> {
+  const store = CacheStoreFactory.getStore();
+  const prefix = filter.provider ? `${CACHE_PREFIX}${providerDirFor(filter.provider)}/` : CACHE_PREFIX;
+  // Same host form as the keys (lowercase, punycode)
+  const domain = filter.domain ? hostDirFor(`https://${filter.domain.replace(/\.$/, '')}`) : undefined;
+
+  let keys = (await store.list(prefix)).map((item) => item.key);
+
+  if (domain) {
+    keys = keys.filter((key) => {
+      const host = key.slice(CACHE_PREFIX.length).split('/')[1] ?? '';
+      return host === domain || host.endsWith(`.${domain}`);
+    });
+  }
+
+  if (filter.url) {
+    const url = filter.url;
+    // Providers are taken from the listing since the caller may not name one
+    const providers = new Set(keys.map((key) => key.slice(CACHE_PREFIX.length).split('/')[0]));
+    const urlKeys = new Set<string>();
+    for (const provider of providers) {
+      for (const device of CACHE_DEVICES) {
+        urlKeys.add(generateCacheKey(url, provider === 'default' ? undefined : provider, device));
+      }
+    }
+    keys = keys.filter((key) => urlKeys.has(key));
+
+    // Drop the page's pipeline artifacts too, so the next request re-fetches
+    const artifactKeys = (Object.keys(ARTIFACT_VERSIONS) as ArtifactStage[]).flatMap((stage) =>
+      CACHE_DEVICES.map((device) => generateArtifactKey(stage, url, device))
+    );
+    await store.delete(Array.from(new Set(artifactKeys)));
+  }
+
+  await store.delete(keys);
+  console.log(`🧹 Purged ${keys.length} cache entries from ${store.name} store`, filter);
+  return keys.length;
+}
+
 /**
  * Get cache statistics
  */
 export interface CacheStats {
+  store: string;
   totalCachedImages: number;
+  totalBytes: number;
   oldestCache: Date | null;
   newestCache: Date | null;
+  // Pipeline artifacts, counted apart from images
+  totalArtifacts: number;
+  artifactBytes: number;
+  // Expired or outdated artifacts that clearOldCache would remove
+  deadArtifacts: number;
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const store = CacheStoreFactory.getStore();
+  const [items, artifacts] = await Promise.all([
+    store.list(CACHE_PREFIX),
+    store.list(ARTIFACT_PREFIX),
+  ]);
+
+  let oldestCache: Date | null = null;
+  let newestCache: Date | null = null;
+  let totalBytes = 0;
+  for (const item of items) {
+    totalBytes += item.size;
+    if (!oldestCache || item.uploadedAt < oldestCache) oldestCache = item.uploadedAt;
+    if (!newestCache || item.uploadedAt > newestCache) newestCache = item.uploadedAt;
+  }
+
+  return {
+    store: store.name,
+    totalCachedImages: items.length,
+    totalBytes,
+    oldestCache,
+    newestCache,
+    totalArtifacts: artifacts.length,
+    artifactBytes: artifacts.reduce((sum, item) => sum + item.size, 0),
+    deadArtifacts: artifacts.filter((item) => isDeadArtifact(item.key, item.uploadedAt)).length,
+  };
 }
 
 /**
- * Clear old cache entries (if needed for maintenance)
- * Note: This would require listing blobs, which might need additional permissions
+ * Clear cache entries written more than `olderThanDays` days ago, along with
+ * pipeline artifacts that have expired or belong to an old version. Returns
+ * the number of entries removed.
  */
-export async function clearOldCache(olderThanDays: number = 30): Promise<void> {
-  // Implementation would depend on Vercel Blob's listing capabilities
-  // For now, this is a placeholder
-  console.log(`🧹 Cache cleanup would remove entries older than ${olderThanDays} days`);
-}
\ No newline at end of file
+export async function clearOldCache(olderThanDays: number = 30): Promise<number> {
+  const store = CacheStoreFactory.getStore();
+  const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+
+  const imageKeys = (await store.list(CACHE_PREFIX))
+    .filter((item) => item.uploadedAt.getTime() < cutoff)
+    .map((item) => item.key);
+  const artifactKeys = (await store.list(ARTIFACT_PREFIX))
+    .filter((item) => item.uploadedAt.getTime() < cutoff || isDeadArtifact(item.key, item.uploadedAt))
+    .map((item) => item.key);
+
+  const keys = [...imageKeys, ...artifactKeys];
+  await store.delete(keys);
+  console.log(
+    `🧹 Removed ${imageKeys.length} cache entries older than ${olderThanDays} days and ${artifactKeys.length} old artifacts`
+  );
+  return keys.length;
+}
@@ -1,5 +1,12 @@
 import { posthogOpenAI } from "../lib/openai";
-import { GoogleGenAI, MediaResolution, Modality } from "@google/genai";
+import { BlockedReason, FinishReason, GoogleGenAI, MediaResolution, Modality } from "@google/genai";
+import {
+  classifyProviderError,
+  ContentPolicyError,
+  ProviderError,
+  withRetry,
+  type ProviderErrorKind,
+} from "./provider-errors";
 
 export type ImageSize = `${number}x${number}`;
 export type ImageQuality = string;
@@ -11,6 +18,12 @@ export interface ImageGenerationOptions {
   stream?: boolean;
   partialImages?: number;
   distinctId?: string;
+  // Aborts the upstream request
+  signal?: AbortSignal;
+  // Awaited before every upstream call, retries included
+  beforeRequest?: () => Promise<void> | void;
+  // Called before a failed upstream call is retried
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
 }
 
 export interface ImageGenerationResult {
@@ -111,7 +124,20 @@ export class GPTImage1Provider extends ImageProvider {
 
       console.log("🖼️ Making OpenAI API call with params:", requestParams);
 
-      const response = await posthogOpenAI.images.generate(requestParams);
+      const response = await withRetry(
+        () =>
+          posthogOpenAI.images.generate(requestParams, {
+            signal: options?.signal,
+            // Retries are ours, so they follow PROVIDER_RETRY_POLICY
+            maxRetries: 0,
+          }),
+        {
+          provider: this.modelName,
+          signal: options?.signal,
+          beforeAttempt: options?.beforeRequest,
+          onRetry: options?.onRetry,
+        }
+      );
 
       console.log("🖼️ OpenAI API response:", {
         hasData: !!response.data,
@@ -138,7 +164,9 @@ export class GPTImage1Provider extends ImageProvider {
           imageData.url
         );
         // Fetch the image from URL and convert to base64
-        const imageResponse = await fetch(imageData.url);
+        const imageResponse = await fetch(imageData.url, {
+          signal: options?.signal,
+        });
         const imageBuffer = await imageResponse.arrayBuffer();
         base64Data = Buffer.from(imageBuffer).toString("base64");
         revisedPrompt = imageData.revised_prompt;
@@ -165,12 +193,9 @@ export class GPTImage1Provider extends ImageProvider {
         revisedPrompt,
       };
     } catch (error) {
+      options?.signal?.throwIfAborted();
       console.error("🖼️ GPT-Image-1 generation failed:", error);
-      throw new Error(
-        `GPT-Image-1 generation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw classifyProviderError(error, this.modelName);
     }
   }
 
@@ -206,8 +231,20 @@ export class GPTImage1Provider extends ImageProvider {
       const isVercel = process.env.VERCEL === "1";
       console.log(`🖼️ Running on ${isVercel ? "Vercel" : "local"} environment`);
 
-      const stream = (await posthogOpenAI.images.generate(
-        requestParams
+      // Only opening the stream is retried; partial images may already
+      // have been sent when a later event fails
+      const stream = (await withRetry(
+        () =>
+          posthogOpenAI.images.generate(requestParams, {
+            signal: options?.signal,
+            maxRetries: 0,
+          }),
+        {
+          provider: this.modelName,
+          signal: options?.signal,
+          beforeAttempt: options?.beforeRequest,
+          onRetry: options?.onRetry,
+        }
       )) as any;
 
       // Debug what we actually received
@@ -309,16 +346,22 @@ export class GPTImage1Provider extends ImageProvider {
         throw new Error("Stream ended without receiving final image");
       }
     } catch (error) {
+      options?.signal?.throwIfAborted();
       console.error("🖼️ GPT-Image-1 streaming failed:", error);
-      throw new Error(
-        `GPT-Image-1 streaming failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw classifyProviderError(error, this.modelName);
     }
   }
 }
 
+// Finish reasons for candidates withheld by Gemini's safety filters
+const GEMINI_REFUSAL_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+]);
+
 export class GeminiImageProvider extends ImageProvider {
   readonly modelName = "gemini-2.5-flash-image-preview" as const;
   // Gemini 2.5 flash image preview doesn't support size control
@@ -356,13 +399,36 @@ export class GeminiImageProvider extends ImageProvider {
       console.log(
         "🎨 Using generateContent for gemini-2.5-flash-image-preview..."
       );
-      const response = await this.ai.models.generateContent({
-        model: this.modelName,
-        contents: validatedPrompt,
-        config: {
-          responseModalities: [Modality.IMAGE],
-        },
-      });
+      const response = await withRetry(
+        () =>
+          this.ai.models.generateContent({
+            model: this.modelName,
+            contents: validatedPrompt,
+            config: {
+              responseModalities: [Modality.IMAGE],
+              abortSignal: options?.signal,
+            },
+          }),
+        {
+          provider: this.modelName,
+          signal: options?.signal,
+          beforeAttempt: options?.beforeRequest,
+          onRetry: options?.onRetry,
+        }
+      );
+
+      // Refusals come back as a successful response without an image
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (
+        (blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) ||
+        (finishReason && GEMINI_REFUSAL_REASONS.has(finishReason))
+      ) {
+        throw new ContentPolicyError(
+          `${this.modelName} refused the prompt: ${blockReason || finishReason}`,
+          { provider: this.modelName }
+        );
+      }
 
       if (!response.candidates || response.candidates.length === 0) {
         console.error(
@@ -427,12 +493,9 @@ export class GeminiImageProvider extends ImageProvider {
         revisedPrompt: validatedPrompt, // Gemini doesn't provide revised prompts
       };
     } catch (error) {
+      options?.signal?.throwIfAborted();
       console.error("🎨 Gemini image generation failed:", error);
-      throw new Error(
-        `Gemini image generation failed: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+      throw classifyProviderError(error, this.modelName);
     }
   }
 
@@ -495,6 +558,32 @@ export class ImageProviderFactory {
   }
 }
 
+export interface ProviderFallback {
+  from: string;
+  to: string;
+  error: Error;
+  // Partial images already streamed from the failed provider
+  partialImages: number;
+}
+
+export interface SmartGenerationOptions extends ImageGenerationOptions {
+  // Tried first, ahead of the fallback chain
+  preferredModel?: string;
+  // Awaited before every call to a provider, retries included, e.g. to wait
+  // for its rate limit
+  beforeAttempt?: (modelName: string) => Promise<void> | void;
+  onFallback?: (fallback: ProviderFallback) => void;
+}
+
+export type SmartGenerationResult = ImageGenerationResult & { usedModel: string };
+
+// A refused or malformed prompt would fare no better with the next provider
+const FALLBACK_KINDS = new Set<ProviderErrorKind>(["rate_limited", "timeout", "upstream", "unknown"]);
+
+function shouldFallBack(error: unknown): boolean {
+  return !(error instanceof ProviderError) || FALLBACK_KINDS.has(error.kind);
+}
+
 export class SmartImageProvider {
   private fallbackChain: ImageProvider[];
 
@@ -523,35 +612,100 @@ export class SmartImageProvider {
     }
   }
 
+  private providersFor(preferredModel?: string): ImageProvider[] {
+    if (!preferredModel) return [...this.fallbackChain];
+    const preferred = ImageProviderFactory.getProvider(preferredModel);
+    return [preferred, ...this.fallbackChain.filter((p) => p !== preferred)];
+  }
+
   async generate(
     prompt: string,
-    options?: ImageGenerationOptions & { preferredModel?: string }
-  ): Promise<ImageGenerationResult & { usedModel: string }> {
-    let providers = [...this.fallbackChain];
-
-    if (options?.preferredModel) {
-      const preferred = ImageProviderFactory.getProvider(
-        options.preferredModel
-      );
-      providers = [preferred, ...providers.filter((p) => p !== preferred)];
-    }
+    options: SmartGenerationOptions = {}
+  ): Promise<SmartGenerationResult> {
+    const { preferredModel, beforeAttempt, onFallback, ...generationOptions } = options;
+    const providers = this.providersFor(preferredModel);
 
     let lastError: Error | null = null;
 
-    for (const provider of providers) {
+    for (const [index, provider] of providers.entries()) {
       try {
         console.log(`Attempting image generation with ${provider.modelName}`);
-        const result = await provider.generate(prompt, options);
+        const result = await provider.generate(prompt, {
+          ...generationOptions,
+          beforeRequest: beforeAttempt && (() => beforeAttempt(provider.modelName)),
+        });
         return {
           ...result,
           usedModel: provider.modelName,
         };
       } catch (error) {
+        // Don't fall back to the next provider once cancelled
+        options.signal?.throwIfAborted();
         console.error(
           `Failed with ${provider.modelName}:`,
           error instanceof Error ? error.message : String(error)
         );
+        if (!shouldFallBack(error)) throw error;
+        lastError = error instanceof Error ? error : new Error(String(error));
+        const next = providers[index + 1];
+        if (next) {
+          onFallback?.({
+            from: provider.modelName,
+            to: next.modelName,
+            error: lastError,
+            partialImages: 0,
+          });
+        }
+      }
+    }
+
+    throw lastError || new Error("All image providers failed");
+  }
+
+  /**
+   * Stream from the first provider that succeeds. A provider failing after
+   * some partial images is abandoned too; the next one streams from scratch.
+   * Refusals and invalid requests are rethrown instead of falling back.
+   */
+  async *generateStream(
+    prompt: string,
+    options: SmartGenerationOptions = {}
+  ): AsyncGenerator<SmartGenerationResult, void, unknown> {
+    const { preferredModel, beforeAttempt, onFallback, ...generationOptions } = options;
+    const providers = this.providersFor(preferredModel);
+
+    let lastError: Error | null = null;
+
+    for (const [index, provider] of providers.entries()) {
+      let partialImages = 0;
+      try {
+        console.log(`Attempting streaming image generation with ${provider.modelName}`);
+        const stream = provider.generateStream(prompt, {
+          ...generationOptions,
+          beforeRequest: beforeAttempt && (() => beforeAttempt(provider.modelName)),
+        });
+        for await (const result of stream) {
+          if (result.isPartial) partialImages++;
+          yield { ...result, usedModel: provider.modelName };
+        }
+        return;
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.error(
+          `Failed with ${provider.modelName} after ${partialImages} partial images:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        if (!shouldFallBack(error)) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
+        const next = providers[index + 1];
+        if (next) {
+          onFallback?.({
+            from: provider.modelName,
+            to: next.modelName,
+            error: lastError,
+            partialImages,
+          });
+        }
       }
     }
 
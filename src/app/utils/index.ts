@@ -1,5 +1,39 @@
 // HTML cleaning utilities
 export { cleanHTML } from "./clean-html";
+export {
+  precleanHTML,
+  shouldSkipLLMClean,
+  DEFAULT_PRECLEAN_RULES,
+  precleanRulesFromEnv,
+  type PrecleanRules,
+  type PrecleanStats,
+  type PrecleanResult,
+} from "./preclean-html";
+
+// URL canonicalization
+export {
+  canonicalizeUrl,
+  tryCanonicalizeUrl,
+  canonicalUrlRulesFromEnv,
+  DEFAULT_CANONICAL_URL_RULES,
+  type CanonicalUrlRules,
+} from "./canonical-url";
+
+// Structured page outline
+export {
+  PageOutlineSchema,
+  extractPageOutline,
+  mergePageOutlines,
+  buildImagePromptFromOutline,
+  applyStyleSummary,
+  type PageOutline,
+} from "./page-outline";
+export {
+  extractStyles,
+  summarizeCss,
+  formatStyleHints,
+  type StyleSummary,
+} from "./extract-styles";
 
 // Image provider system
 export {
@@ -12,6 +46,39 @@ export {
   type ImageGenerationOptions,
   type ImageGenerationResult,
 } from "./image-providers";
+export {
+  ProviderError,
+  RateLimitedError,
+  ContentPolicyError,
+  ProviderTimeoutError,
+  InvalidRequestError,
+  UpstreamError,
+  classifyProviderError,
+  withRetry,
+  PROVIDER_RETRY_POLICY,
+  type ProviderErrorKind,
+  type RetryPolicy,
+} from "./provider-errors";
+
+// Concurrency and per-provider rate limits
+export {
+  createConcurrencyLimiter,
+  parseRateLimits,
+  sleep,
+  ProviderRateLimiter,
+  providerRateLimiter,
+  type RateLimit,
+} from "./rate-limit";
+
+// Stage-based generation pipelines
+export {
+  GenerationPipeline,
+  type PipelineStage,
+  type StageControls,
+  type PipelineHooks,
+  type PipelineRunOptions,
+  type PipelineResult,
+} from "./generation-pipeline";
 
 // HTML to image generation
 export {
@@ -20,4 +87,5 @@ export {
   HTMLImageGenerator,
   type HTMLToImageOptions,
   type HTMLToImageResult,
+  type BatchHTMLToImageOptions,
 } from "./html-to-image";
\ No newline at end of file
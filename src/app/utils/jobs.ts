@@ -0,0 +1,264 @@
+import crypto from "crypto";
+import {
+  joinFlight,
+  type FlightEvent,
+  type FlightSubscription,
+  type FlightTask,
+} from "./single-flight";
+import { SseEmitter } from "./sse-protocol";
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface JobEvent {
+  // Monotonic per job; sent as the SSE id for Last-Event-ID resume
+  id: number;
+  data: FlightEvent;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  // What was requested, for status responses (never the raw HTML)
+  request: Record<string, unknown>;
+  events: JobEvent[];
+  error?: string;
+}
+
+// Receives each new event, then null once the job has finished
+export type JobListener = (event: JobEvent | null) => void;
+
+/**
+ * Storage for jobs and their event logs, plus live notification of new
+ * events. The in-memory store only serves clients of the same process.
+ */
+export abstract class JobStore {
+  abstract readonly name: string;
+
+  abstract create(request: Record<string, unknown>): Promise<Job>;
+  abstract get(id: string): Promise<Job | null>;
+  abstract appendEvent(id: string, data: FlightEvent): Promise<JobEvent | null>;
+  abstract finish(id: string, status: Exclude<JobStatus, "running">, error?: string): Promise<void>;
+  // Returns an unsubscribe function
+  abstract subscribe(id: string, listener: JobListener): () => void;
+}
+
+// Finished jobs are kept this long so reloaded pages can still replay them
+export const JOB_TTL_MS = (Number(process.env.JOB_TTL_MINUTES) || 60) * 60 * 1000;
+
+export class InMemoryJobStore extends JobStore {
+  readonly name = "memory";
+  private jobs = new Map<string, Job>();
+  private listeners = new Map<string, Set<JobListener>>();
+
+  async create(request: Record<string, unknown>): Promise<Job> {
+    this.sweep();
+    const now = Date.now();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      status: "running",
+      createdAt: now,
+      updatedAt: now,
+      request,
+      events: [],
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    return this.jobs.get(id) ?? null;
+  }
+
+  async appendEvent(id: string, data: FlightEvent): Promise<JobEvent | null> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") return null;
+
+    const event: JobEvent = {
+      id: (job.events[job.events.length - 1]?.id ?? 0) + 1,
+      data,
+    };
+    // Only the latest partial image matters on replay, and they are large
+    if (data.step === "partial_image") {
+      job.events = job.events.filter((existing) => existing.data.step !== "partial_image");
+    }
+    job.events.push(event);
+    job.updatedAt = Date.now();
+
+    for (const listener of this.listeners.get(id) ?? []) {
+      listener(event);
+    }
+    return event;
+  }
+
+  async finish(id: string, status: Exclude<JobStatus, "running">, error?: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") return;
+
+    job.status = status;
+    job.error = error;
+    job.updatedAt = Date.now();
+
+    for (const listener of this.listeners.get(id) ?? []) {
+      listener(null);
+    }
+    this.listeners.delete(id);
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    const listeners = this.listeners.get(id) ?? new Set<JobListener>();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (job.status !== "running" && job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export class JobStoreFactory {
+  private static stores = new Map<string, JobStore>();
+
+  static {
+    this.register(new InMemoryJobStore());
+  }
+
+  static register(store: JobStore): void {
+    this.stores.set(store.name, store);
+  }
+
+  static getStore(name: string = process.env.JOB_STORE || "memory"): JobStore {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw new Error(
+        `Unknown job store: ${name} (available: ${Array.from(this.stores.keys()).join(", ")})`
+      );
+    }
+    return store;
+  }
+}
+
+interface RunningJob {
+  subscription: FlightSubscription;
+  // Settles the job's `done` promise
+  resolve: () => void;
+}
+
+// Running jobs in this process, for cancellation
+const runningJobs = new Map<string, RunningJob>();
+
+/**
+ * Create a job and run `task` for it through the single-flight layer, so a
+ * job and a concurrent streaming request for the same page share one run.
+ * `done` resolves when the job has finished; keep the function alive on it.
+ */
+export async function startJob(
+  flightKey: string | null,
+  task: FlightTask,
+  request: Record<string, unknown>
+): Promise<{ job: Job; done: Promise<void> }> {
+  const store = JobStoreFactory.getStore();
+  const job = await store.create(request);
+  let error: string | undefined;
+
+  const done = new Promise<void>((resolve) => {
+    const subscription = joinFlight(flightKey, task, {
+      onEvent: (event) => {
+        if (event.step === "error") {
+          error = typeof event.error === "string" ? event.error : "Unknown error";
+        }
+        store.appendEvent(job.id, event).catch((appendError) => {
+          console.error(`❌ Failed to record event for job ${job.id}:`, appendError);
+        });
+      },
+      onDone: () => {
+        runningJobs.delete(job.id);
+        store
+          .finish(job.id, error ? "failed" : "completed", error)
+          .catch((finishError) => {
+            console.error(`❌ Failed to finish job ${job.id}:`, finishError);
+          })
+          .finally(resolve);
+      },
+    });
+    runningJobs.set(job.id, { subscription, resolve });
+  });
+
+  console.log(`🧾 Started job ${job.id}`);
+  return { job, done };
+}
+
+/**
+ * Cancel a running job. The shared run is aborted only if no other job or
+ * stream is following it. Returns false if the job isn't running here.
+ */
+export async function cancelJob(id: string): Promise<boolean> {
+  const running = runningJobs.get(id);
+  if (!running) return false;
+
+  runningJobs.delete(id);
+  // Removes the onDone listener, so `done` is settled below instead
+  running.subscription.unsubscribe();
+
+  const store = JobStoreFactory.getStore();
+  try {
+    await store.appendEvent(id, { step: "cancelled", message: "Job cancelled" });
+    await store.finish(id, "cancelled");
+  } finally {
+    running.resolve();
+  }
+  console.log(`🚫 Cancelled job ${id}`);
+  return true;
+}
+
+/**
+ * SSE stream of a job's events, or null for an unknown job. Events carry
+ * ids; only those after `lastEventId` are replayed before the live ones, and
+ * the stream ends with [DONE] once the job has finished. Closing the stream
+ * detaches from the job without stopping it.
+ */
+export async function openJobEventStream(
+  id: string,
+  lastEventId = 0
+): Promise<ReadableStream<Uint8Array> | null> {
+  const store = JobStoreFactory.getStore();
+  const job = await store.get(id);
+  if (!job) return null;
+
+  let unsubscribe: (() => void) | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const emitter = new SseEmitter<FlightEvent>(controller);
+
+      // Replay and subscribe in the same tick so no event falls in between
+      for (const event of job.events) {
+        if (!(event.id <= lastEventId)) emitter.send(event.data, event.id);
+      }
+      if (job.status !== "running") {
+        emitter.done();
+        return;
+      }
+      unsubscribe = store.subscribe(id, (event) => {
+        if (event) {
+          emitter.send(event.data, event.id);
+        } else {
+          unsubscribe?.();
+          emitter.done();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
@@ -0,0 +1,185 @@
+// Mock HTML generator for demo/fallback
+export function getMockHTML(url: string): string {
+  const hostname = new URL(url).hostname;
+  
+  // Special mock for known sites
+  if (hostname.includes('example.com')) {
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <title>Example Domain</title>
+          <meta charset="utf-8" />
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <style>
+            body { 
+              font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; 
+              line-height: 1.6;
+              margin: 40px auto; 
+              max-width: 650px;
+              padding: 0 20px;
+            }
+            h1 { color: #333; font-size: 2.5em; margin-bottom: 0.5em; }
+            p { margin: 1em 0; color: #666; }
+            a { color: #0066cc; text-decoration: none; }
+            a:hover { text-decoration: underline; }
+          </style>
+        </head>
+        <body>
+          <h1>Example Domain</h1>
+          <p>This domain is for use in illustrative examples in documents. You may use this domain in literature without prior coordination or asking for permission.</p>
+          <p><a href="https://www.iana.org/domains/example">More information...</a></p>
+        </body>
+      </html>
+    `;
+  }
+  
+  // Generic mock HTML
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <title>${hostname} - Demo Page</title>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { 
+            font-family: system-ui, -apple-system, sans-serif;
+            line-height: 1.6;
+            color: #333;
+          }
+          header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 2rem 0;
+          }
+          nav {
+            max-width: 1200px;
+            margin: 0 auto;
+            padding: 0 20px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+          }
+          nav a {
+            color: white;
+            text-decoration: none;
+            margin-left: 2rem;
+          }
+          main {
+            max-width: 1200px;
+            margin: 3rem auto;
+            padding: 0 20px;
+          }
+          .hero {
+            text-align: center;
+            margin-bottom: 4rem;
+          }
+          h1 {
+            font-size: 3rem;
+            margin-bottom: 1rem;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            -webkit-background-clip: text;
+            -webkit-text-fill-color: transparent;
+          }
+          .subtitle {
+            font-size: 1.25rem;
+            color: #666;
+            margin-bottom: 2rem;
+          }
+          .features {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
+            gap: 2rem;
+            margin-bottom: 4rem;
+          }
+          .feature {
+            padding: 2rem;
+            background: #f8f9fa;
+            border-radius: 10px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+          }
+          .feature h3 {
+            color: #667eea;
+            margin-bottom: 1rem;
+          }
+          footer {
+            background: #f8f9fa;
+            padding: 3rem 0;
+            text-align: center;
+            color: #666;
+          }
+        </style>
+      </head>
+      <body>
+        <header>
+          <nav>
+            <div class="logo">
+              <strong>${hostname}</strong>
+            </div>
+            <div class="nav-links">
+              <a href="/">Home</a>
+              <a href="/about">About</a>
+              <a href="/services">Services</a>
+              <a href="/contact">Contact</a>
+            </div>
+          </nav>
+        </header>
+        
+        <main>
+          <section class="hero">
+            <h1>Welcome to ${hostname}</h1>
+            <p class="subtitle">This is a demonstration page generated for testing the HTML to Image converter</p>
+          </section>
+          
+          <section class="features">
+            <div class="feature">
+              <h3>🚀 Fast Performance</h3>
+              <p>Lightning-fast page loads with optimized content delivery and efficient caching strategies.</p>
+            </div>
+            <div class="feature">
+              <h3>🎨 Modern Design</h3>
+              <p>Beautiful, responsive layouts that look great on all devices and screen sizes.</p>
+            </div>
+            <div class="feature">
+              <h3>🔒 Secure & Reliable</h3>
+              <p>Enterprise-grade security with 99.9% uptime guarantee and regular backups.</p>
+            </div>
+            <div class="feature">
+              <h3>📊 Analytics</h3>
+              <p>Comprehensive insights into user behavior and engagement metrics.</p>
+            </div>
+            <div class="feature">
+              <h3>🌍 Global Reach</h3>
+              <p>Content delivery network ensures fast access from anywhere in the world.</p>
+            </div>
+            <div class="feature">
+              <h3>🛠️ Easy Integration</h3>
+              <p>Simple API and webhook integration with your existing tools and workflows.</p>
+            </div>
+          </section>
+          
+          <section>
+            <h2>Latest Updates</h2>
+            <article style="margin: 2rem 0; padding: 1.5rem; background: white; border-left: 4px solid #667eea;">
+              <h3>New Feature Release</h3>
+              <p style="color: #666; margin: 0.5rem 0;">We're excited to announce our latest feature that will revolutionize how you work with web content.</p>
+              <small style="color: #999;">Posted on ${new Date().toLocaleDateString()}</small>
+            </article>
+            <article style="margin: 2rem 0; padding: 1.5rem; background: white; border-left: 4px solid #764ba2;">
+              <h3>Performance Improvements</h3>
+              <p style="color: #666; margin: 0.5rem 0;">Our recent optimizations have resulted in 50% faster page loads across all regions.</p>
+              <small style="color: #999;">Posted on ${new Date(Date.now() - 86400000).toLocaleDateString()}</small>
+            </article>
+          </section>
+        </main>
+        
+        <footer>
+          <p>&copy; ${new Date().getFullYear()} ${hostname}. All rights reserved.</p>
+          <p style="margin-top: 1rem; font-size: 0.9rem;">This is a demonstration page for the HTML to Image converter.</p>
+        </footer>
+      </body>
+    </html>
+  `;
+}
@@ -0,0 +1,277 @@
+import dns from "dns/promises";
+import net from "net";
+import http from "http";
+import https from "https";
+import zlib from "zlib";
+import { Readable } from "stream";
+
+export class NetworkPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkPolicyError";
+  }
+}
+
+export interface ResolvedAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+const blockedRanges = new net.BlockList();
+
+// Private, loopback, link-local (incl. 169.254.169.254 metadata), CGNAT
+// (incl. 100.100.100.200 metadata), documentation, multicast and reserved
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+// Unspecified, loopback, discard, Teredo, documentation, unique local
+// (incl. fd00:ec2::254 metadata), link-local, site-local and multicast
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ["::", 128],
+  ["::1", 128],
+  ["100::", 64],
+  ["2001::", 32],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+];
+
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+  blockedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) {
+  blockedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether private network targets are allowed (local development only)
+ */
+export function allowPrivateNetwork(): boolean {
+  return process.env.NETWORK_POLICY_ALLOW_PRIVATE === "true";
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function expandIPv6(address: string): number[] {
+  let input = address.toLowerCase().split("%")[0];
+
+  // Convert a trailing dotted IPv4 part into two hex groups
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(input);
+  if (dotted) {
+    const octets = dotted[1].split(".").map(Number);
+    input =
+      input.slice(0, -dotted[1].length) +
+      ((octets[0] << 8) | octets[1]).toString(16) +
+      ":" +
+      ((octets[2] << 8) | octets[3]).toString(16);
+  }
+
+  const [head, tail] = input.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing =
+    tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+  return [...headGroups, ...Array(missing).fill("0"), ...tailGroups].map(
+    (group) => parseInt(group, 16)
+  );
+}
+
+/**
+ * Extract an IPv4 address embedded in IPv4-mapped, NAT64 or 6to4 addresses
+ */
+function embeddedIPv4(address: string): string | null {
+  const groups = expandIPv6(address);
+  const toIPv4 = (high: number, low: number) =>
+    [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+
+  const isMapped =
+    groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const isNat64 =
+    groups[0] === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0);
+
+  if (isMapped || isNat64) return toIPv4(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return toIPv4(groups[1], groups[2]);
+  return null;
+}
+
+/**
+ * Check whether an IP address points into a private, loopback, link-local,
+ * metadata or otherwise non-public range
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return blockedRanges.check(address, "ipv4");
+  }
+  if (family === 6) {
+    const ipv4 = embeddedIPv4(address);
+    if (ipv4) return blockedRanges.check(ipv4, "ipv4");
+    return blockedRanges.check(address.split("%")[0], "ipv6");
+  }
+  // Anything that isn't a valid IP literal is treated as unsafe
+  return true;
+}
+
+/**
+ * Resolve a hostname and check every address it resolves to
+ */
+export async function resolveAndCheckHost(
+  hostname: string
+): Promise<ResolvedAddress[]> {
+  // IPv6 literals arrive bracketed from URL.hostname
+  const host = hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: ResolvedAddress[];
+  const literalFamily = net.isIP(host);
+  if (literalFamily) {
+    addresses = [{ address: host, family: literalFamily as 4 | 6 }];
+  } else {
+    try {
+      const results = await dns.lookup(host, { all: true, verbatim: true });
+      addresses = results.map((result) => ({
+        address: result.address,
+        family: result.family as 4 | 6,
+      }));
+    } catch {
+      throw new NetworkPolicyError(`Could not resolve host: ${host}`);
+    }
+  }
+
+  if (addresses.length === 0) {
+    throw new NetworkPolicyError(`Could not resolve host: ${host}`);
+  }
+
+  if (!allowPrivateNetwork()) {
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      throw new NetworkPolicyError(
+        `Host ${host} resolves to a private or reserved address (${blocked.address})`
+      );
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Check a URL's protocol and every address its host resolves to
+ */
+export async function checkUrlAgainstPolicy(
+  url: string
+): Promise<{ url: URL; addresses: ResolvedAddress[] }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new NetworkPolicyError("Invalid URL format");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new NetworkPolicyError(
+      `Unsupported protocol: ${parsed.protocol.replace(":", "")}`
+    );
+  }
+
+  const addresses = await resolveAndCheckHost(parsed.hostname);
+  return { url: parsed, addresses };
+}
+
+/**
+ * Fetch a single URL (no redirect following) with the connection pinned to
+ * the address that passed the policy check, so a second DNS answer cannot
+ * point the request somewhere else.
+ */
+export async function pinnedFetch(
+  url: string,
+  init: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+): Promise<Response> {
+  const { url: target, addresses } = await checkUrlAgainstPolicy(url);
+  init.signal?.throwIfAborted();
+  const pinned = addresses[0];
+  const transport = target.protocol === "https:" ? https : http;
+
+  // With `all` set, Node expects the address list form of the callback
+  const lookup: net.LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+
+  const incoming = await new Promise<http.IncomingMessage>(
+    (resolve, reject) => {
+      const request = transport.request(target, {
+        method: "GET",
+        headers: init.headers,
+        lookup,
+        // Aborting also ends a body that is still being read
+        signal: init.signal,
+      });
+      request.on("response", resolve);
+      request.on("error", reject);
+      request.end();
+    }
+  );
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(incoming.headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  const status = incoming.statusCode || 500;
+  if ([101, 204, 205, 304].includes(status)) {
+    incoming.resume();
+    return new Response(null, {
+      status,
+      statusText: incoming.statusMessage,
+      headers,
+    });
+  }
+
+  // Node's http client does not decompress, unlike fetch
+  let body: Readable = incoming;
+  const contentEncoding = (headers.get("content-encoding") || "").toLowerCase();
+  if (contentEncoding === "gzip" || contentEncoding === "x-gzip") {
+    body = incoming.pipe(zlib.createGunzip());
+  } else if (contentEncoding === "deflate") {
+    body = incoming.pipe(zlib.createInflate());
+  } else if (contentEncoding === "br") {
+    body = incoming.pipe(zlib.createBrotliDecompress());
+  }
+  if (body !== incoming) {
+    headers.delete("content-encoding");
+    headers.delete("content-length");
+    // pipe() doesn't forward errors, e.g. an aborted download
+    incoming.on("error", (error) => body.destroy(error));
+  }
+
+  return new Response(Readable.toWeb(body) as ReadableStream<Uint8Array>, {
+    status,
+    statusText: incoming.statusMessage,
+    headers,
+  });
+}
@@ -0,0 +1,355 @@
+import { z } from "zod";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { posthogOpenAI } from "../lib/openai";
+import {
+  chunkHTML,
+  fitToLength,
+  getMaxChunks,
+  needsChunking,
+  type ChunkingInfo,
+} from "./token-budget";
+import type { StyleSummary } from "./extract-styles";
+
+// Structured outputs require every field, so optional values are nullable
+export const PageOutlineSchema = z.object({
+  title: z.string(),
+  brandColors: z.array(
+    z.object({
+      name: z.string(),
+      value: z.string(),
+      usage: z.string(),
+    })
+  ),
+  fonts: z.array(z.string()),
+  nav: z.object({
+    logoText: z.string().nullable(),
+    items: z.array(z.string()),
+  }),
+  hero: z
+    .object({
+      heading: z.string(),
+      subheading: z.string().nullable(),
+      imageDescription: z.string().nullable(),
+    })
+    .nullable(),
+  sections: z.array(
+    z.object({
+      heading: z.string().nullable(),
+      text: z.string(),
+      layout: z.string(),
+    })
+  ),
+  ctas: z.array(
+    z.object({
+      label: z.string(),
+      style: z.string(),
+    })
+  ),
+  images: z.array(
+    z.object({
+      alt: z.string(),
+      description: z.string(),
+    })
+  ),
+  footer: z
+    .object({
+      text: z.string(),
+      links: z.array(z.string()),
+    })
+    .nullable(),
+});
+
+export type PageOutline = z.infer<typeof PageOutlineSchema>;
+
+export interface PageOutlineOptions {
+  onChunking?: (info: ChunkingInfo) => void;
+  // Colors and fonts measured from the page's CSS override the model's guesses
+  styles?: StyleSummary;
+  signal?: AbortSignal;
+}
+
+const OUTLINE_SYSTEM_PROMPT = `<role>
+You are a visual design analyzer that extracts a structured outline of what a website looks like when rendered.
+</role>
+
+<task>
+Analyze the provided HTML and fill in the page outline.
+</task>
+
+<instructions>
+- title: the page title as shown to users
+- brandColors: the main colors with a hex value when known, otherwise a precise color name, and where each is used
+- fonts: font families in use, most prominent first
+- nav: the logo text and the visible navigation items in order
+- hero: the first large heading area, or null if there is none
+- sections: main content sections from top to bottom, with visible text condensed to one or two sentences and a short layout description (e.g. "three-column card grid")
+- ctas: buttons and call-to-action links with a short style description
+- images: important images with their alt text and what they likely show
+- footer: condensed footer text and links, or null if there is none
+- Only include content that would actually be visible
+</instructions>`;
+
+async function extractSingleOutline(
+  htmlContent: string,
+  context?: string,
+  signal?: AbortSignal
+): Promise<PageOutline> {
+  const response = await posthogOpenAI.chat.completions.create({
+    model: "gpt-5-nano",
+    reasoning_effort: "low",
+    response_format: zodResponseFormat(PageOutlineSchema, "page_outline"),
+    messages: [
+      {
+        role: "system",
+        content: context
+          ? `${OUTLINE_SYSTEM_PROMPT}\n\n<context>\n${context}\n</context>`
+          : OUTLINE_SYSTEM_PROMPT,
+      },
+      {
+        role: "user",
+        content: htmlContent,
+      },
+    ],
+  }, { signal });
+
+  const text = response.choices[0]?.message?.content || "";
+  return PageOutlineSchema.parse(JSON.parse(text));
+}
+
+/**
+ * Extract a typed outline of the page. Pages larger than the model context
+ * are outlined chunk by chunk and merged. Returns null if extraction fails.
+ */
+export async function extractPageOutline(
+  htmlContent: string,
+  options: PageOutlineOptions = {}
+): Promise<PageOutline | null> {
+  try {
+    if (!needsChunking(htmlContent)) {
+      const outline = await extractSingleOutline(htmlContent, undefined, options.signal);
+      console.log("[page-outline] Extracted outline: ", {
+        title: outline.title,
+        sections: outline.sections.length,
+      });
+      return options.styles ? applyStyleSummary(outline, options.styles) : outline;
+    }
+
+    const allChunks = chunkHTML(htmlContent);
+    const chunks = allChunks.slice(0, getMaxChunks());
+    const info: ChunkingInfo = {
+      estimatedTokens: allChunks.reduce((sum, c) => sum + c.estimatedTokens, 0),
+      maxChunkTokens: Math.max(...chunks.map((c) => c.estimatedTokens)),
+      chunkCount: chunks.length,
+      droppedChunks: allChunks.length - chunks.length,
+    };
+    console.log("[page-outline] Chunking: ", info);
+    options.onChunking?.(info);
+
+    const outlines = await Promise.all(
+      chunks.map((chunk) =>
+        extractSingleOutline(
+          chunk.html,
+          `This HTML is part ${chunk.index + 1} of ${chunks.length} of the page. Leave fields empty or null when that part of the page is not in this HTML.`,
+          options.signal
+        ).catch((error) => {
+          options.signal?.throwIfAborted();
+          console.error(`Error outlining chunk ${chunk.index + 1}:`, error);
+          return null;
+        })
+      )
+    );
+
+    const extracted = outlines.filter(
+      (outline): outline is PageOutline => outline !== null
+    );
+    if (extracted.length === 0) return null;
+    const merged = mergePageOutlines(extracted);
+    return options.styles ? applyStyleSummary(merged, options.styles) : merged;
+  } catch (error) {
+    // Null means "fall back to a description", which a cancelled run shouldn't do
+    options.signal?.throwIfAborted();
+    console.error("Error extracting page outline:", error);
+    return null;
+  }
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item).toLowerCase();
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+/**
+ * Merge outlines of consecutive page chunks, top to bottom
+ */
+export function mergePageOutlines(outlines: PageOutline[]): PageOutline {
+  return {
+    title: outlines.find((outline) => outline.title)?.title || "",
+    brandColors: uniqueBy(
+      outlines.flatMap((outline) => outline.brandColors),
+      (color) => color.value
+    ).slice(0, 8),
+    fonts: uniqueBy(
+      outlines.flatMap((outline) => outline.fonts),
+      (font) => font
+    ),
+    nav: outlines.find((outline) => outline.nav.items.length > 0)?.nav ||
+      outlines[0].nav,
+    hero: outlines.find((outline) => outline.hero)?.hero || null,
+    sections: outlines.flatMap((outline) => outline.sections),
+    ctas: uniqueBy(
+      outlines.flatMap((outline) => outline.ctas),
+      (cta) => cta.label
+    ),
+    images: outlines.flatMap((outline) => outline.images).slice(0, 12),
+    footer:
+      [...outlines].reverse().find((outline) => outline.footer)?.footer ||
+      null,
+  };
+}
+
+/**
+ * Replace guessed brand colors and fonts with values measured from CSS
+ */
+export function applyStyleSummary(
+  outline: PageOutline,
+  styles: StyleSummary
+): PageOutline {
+  const measured = [
+    styles.background && {
+      name: "background",
+      value: styles.background,
+      usage: "page background",
+    },
+    styles.text && { name: "text", value: styles.text, usage: "body text" },
+    styles.accent && {
+      name: "accent",
+      value: styles.accent,
+      usage: "links, buttons and highlights",
+    },
+  ].filter((color): color is PageOutline["brandColors"][number] => !!color);
+
+  if (measured.length === 0 && styles.fontFamilies.length === 0) {
+    return outline;
+  }
+
+  // Keep guessed colors for other roles, such as section backgrounds
+  const values = new Set(measured.map((color) => color.value.toLowerCase()));
+  const guessed = outline.brandColors.filter(
+    (color) => !values.has(color.value.toLowerCase())
+  );
+
+  return {
+    ...outline,
+    brandColors: [...measured, ...guessed].slice(0, 8),
+    fonts:
+      styles.fontFamilies.length > 0 ? styles.fontFamilies : outline.fonts,
+  };
+}
+
+function quoteList(items: string[]): string {
+  return items.map((item) => `"${item}"`).join(", ");
+}
+
+/**
+ * Build the image prompt from an outline using fixed templates, dropping
+ * trailing sections if the result would not fit `maxPromptLength`
+ */
+export function buildImagePromptFromOutline(
+  outline: PageOutline,
+  maxPromptLength: number = Infinity
+): string {
+  const opening = [
+    `A website design for "${outline.title}"`,
+    outline.brandColors.length > 0
+      ? ` with a color scheme of ${outline.brandColors
+          .map((color) => `${color.name} (${color.value}) for ${color.usage}`)
+          .join(", ")}`
+      : "",
+    outline.fonts.length > 0
+      ? `, set in ${outline.fonts.slice(0, 3).join(", ")}`
+      : "",
+    ".",
+  ].join("");
+
+  const header =
+    outline.nav.logoText || outline.nav.items.length > 0
+      ? `At the top is a header with ${
+          outline.nav.logoText
+            ? `the logo "${outline.nav.logoText}"`
+            : "a logo"
+        }${
+          outline.nav.items.length > 0
+            ? ` and navigation links ${quoteList(outline.nav.items)}`
+            : ""
+        }.`
+      : "";
+
+  const hero = outline.hero
+    ? `Below it is a hero area with the large heading "${outline.hero.heading}"${
+        outline.hero.subheading
+          ? ` and the subheading "${outline.hero.subheading}"`
+          : ""
+      }${
+        outline.hero.imageDescription
+          ? `, illustrated by ${outline.hero.imageDescription}`
+          : ""
+      }.`
+    : "";
+
+  const ctas =
+    outline.ctas.length > 0
+      ? `Buttons include ${outline.ctas
+          .map((cta) => `"${cta.label}" (${cta.style})`)
+          .join(", ")}.`
+      : "";
+
+  const sections = outline.sections.map(
+    (section) =>
+      `A section laid out as ${section.layout}${
+        section.heading ? ` headed "${section.heading}"` : ""
+      }: ${section.text}`
+  );
+
+  const images =
+    outline.images.length > 0
+      ? `Images show ${outline.images
+          .map((image) => image.description || image.alt)
+          .join("; ")}.`
+      : "";
+
+  const footer = outline.footer
+    ? `The page ends with a footer containing ${outline.footer.text}${
+        outline.footer.links.length > 0
+          ? ` and links ${quoteList(outline.footer.links)}`
+          : ""
+      }.`
+    : "";
+
+  const compose = (sectionCount: number) =>
+    [
+      opening,
+      header,
+      hero,
+      ctas,
+      ...sections.slice(0, sectionCount),
+      images,
+      footer,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  // Drop sections from the bottom before cutting into the footer
+  let sectionCount = sections.length;
+  let prompt = compose(sectionCount);
+  while (prompt.length > maxPromptLength && sectionCount > 0) {
+    sectionCount--;
+    prompt = compose(sectionCount);
+  }
+
+  return fitToLength(prompt, maxPromptLength);
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DEFAULT_PRECLEAN_RULES, precleanHTML, precleanRulesFromEnv } from "./preclean-html";
+
+describe("precleanHTML", () => {
+  it("removes 1x1 images and images from tracking hosts", () => {
+    const { html } = precleanHTML(
+      '<p>Hi<img src="/a.gif" width="1" height="1"><img src="https://www.google-analytics.com/p.gif"></p>'
+    );
+    expect(html).toBe("<p>Hi</p>");
+  });
+
+  it("keeps images whose size is missing or empty", () => {
+    const { html } = precleanHTML(
+      '<p><img src="/hero.png"><img src="/logo.png" width="" height=""></p>'
+    );
+    expect(html).toBe('<p><img src="/hero.png"><img src="/logo.png" width="" height=""></p>');
+  });
+
+  it("applies the rules it is given", () => {
+    const { html } = precleanHTML('<div id="main"><form><input></form>Text</div>', {
+      removeTags: ["form"],
+      keepIds: true,
+    });
+    expect(html).toBe('<div id="main">Text</div>');
+  });
+});
+
+describe("precleanRulesFromEnv", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("uses the defaults when nothing is configured", () => {
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith("PRECLEAN_")) delete process.env[name];
+    }
+    expect(precleanRulesFromEnv()).toEqual(DEFAULT_PRECLEAN_RULES);
+  });
+
+  it("adds and keeps tags, adds tracking hosts and replaces limits", () => {
+    process.env.PRECLEAN_REMOVE_TAGS = " Form , footer";
+    process.env.PRECLEAN_KEEP_TAGS = "iframe";
+    process.env.PRECLEAN_TRACKING_HOSTS = "stats.example.com";
+    process.env.PRECLEAN_MAX_CLASS_NAMES = "2";
+    process.env.PRECLEAN_MAX_STYLE_CHARS = "0";
+    process.env.PRECLEAN_KEEP_IDS = "true";
+
+    const rules = precleanRulesFromEnv();
+    expect(rules.removeTags).toContain("form");
+    expect(rules.removeTags).toContain("footer");
+    expect(rules.removeTags).not.toContain("iframe");
+    expect(rules.trackingHosts).toContain("stats.example.com");
+    expect(rules.maxClassNames).toBe(2);
+    expect(rules.maxStyleChars).toBe(0);
+    expect(rules.keepIds).toBe(true);
+  });
+
+  it("ignores limits that aren't non-negative integers", () => {
+    process.env.PRECLEAN_MAX_CLASS_NAMES = "-1";
+    process.env.PRECLEAN_MAX_STYLE_CHARS = "lots";
+    const rules = precleanRulesFromEnv();
+    expect(rules.maxClassNames).toBe(DEFAULT_PRECLEAN_RULES.maxClassNames);
+    expect(rules.maxStyleChars).toBe(DEFAULT_PRECLEAN_RULES.maxStyleChars);
+  });
+});
@@ -0,0 +1,303 @@
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+
+export interface PrecleanRules {
+  // Elements removed together with their content
+  removeTags: string[];
+  removeComments: boolean;
+  // Attributes matching any of these patterns are stripped
+  stripAttributePatterns: RegExp[];
+  keepIds: boolean;
+  // Long utility-class lists are cut down to the first N classes
+  maxClassNames: number;
+  // Inline <style> blocks longer than this are truncated (0 removes them)
+  maxStyleChars: number;
+  removeHidden: boolean;
+  removeTrackingPixels: boolean;
+  trackingHosts: string[];
+  // Wrappers with no text, media or inline style are removed
+  removeEmptyWrappers: boolean;
+  wrapperTags: string[];
+  // data: URIs are replaced with a short placeholder
+  stripDataUris: boolean;
+}
+
+export interface PrecleanStats {
+  originalLength: number;
+  cleanedLength: number;
+  savedChars: number;
+  savedPercent: number;
+  removedElements: number;
+  removedAttributes: number;
+}
+
+export interface PrecleanResult {
+  html: string;
+  stats: PrecleanStats;
+}
+
+export const DEFAULT_PRECLEAN_RULES: PrecleanRules = {
+  removeTags: [
+    "script",
+    "noscript",
+    "template",
+    "iframe",
+    "object",
+    "embed",
+    "link",
+    "meta",
+    "base",
+  ],
+  removeComments: true,
+  stripAttributePatterns: [
+    /^data-/,
+    /^on/,
+    /^js/,
+    /^ng-/,
+    /^v-/,
+    /^x-/,
+    /^aria-(?!label$)/,
+    /^(nonce|integrity|crossorigin|referrerpolicy|fetchpriority)$/,
+    /^(srcset|sizes|loading|decoding|tabindex|autocomplete|role)$/,
+  ],
+  keepIds: false,
+  maxClassNames: 8,
+  maxStyleChars: 4000,
+  removeHidden: true,
+  removeTrackingPixels: true,
+  trackingHosts: [
+    "google-analytics.com",
+    "googletagmanager.com",
+    "doubleclick.net",
+    "facebook.com/tr",
+    "bat.bing.com",
+    "analytics.",
+    "pixel.",
+  ],
+  removeEmptyWrappers: true,
+  wrapperTags: ["div", "span", "section", "p", "li", "ul"],
+  stripDataUris: true,
+};
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function countFromEnv(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return value?.trim() && Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
+/**
+ * Rules for the pipeline's pre-cleaning. PRECLEAN_REMOVE_TAGS and
+ * PRECLEAN_TRACKING_HOSTS add comma-separated tags and hosts to the
+ * defaults, PRECLEAN_KEEP_TAGS takes tags off the removal list,
+ * PRECLEAN_MAX_CLASS_NAMES and PRECLEAN_MAX_STYLE_CHARS replace those limits
+ * and PRECLEAN_KEEP_IDS=true keeps id attributes.
+ */
+export function precleanRulesFromEnv(): PrecleanRules {
+  const keepTags = listFromEnv(process.env.PRECLEAN_KEEP_TAGS);
+
+  return {
+    ...DEFAULT_PRECLEAN_RULES,
+    removeTags: [
+      ...DEFAULT_PRECLEAN_RULES.removeTags,
+      ...listFromEnv(process.env.PRECLEAN_REMOVE_TAGS),
+    ].filter((tag) => !keepTags.includes(tag)),
+    trackingHosts: [
+      ...DEFAULT_PRECLEAN_RULES.trackingHosts,
+      ...listFromEnv(process.env.PRECLEAN_TRACKING_HOSTS),
+    ],
+    maxClassNames: countFromEnv(
+      process.env.PRECLEAN_MAX_CLASS_NAMES,
+      DEFAULT_PRECLEAN_RULES.maxClassNames
+    ),
+    maxStyleChars: countFromEnv(
+      process.env.PRECLEAN_MAX_STYLE_CHARS,
+      DEFAULT_PRECLEAN_RULES.maxStyleChars
+    ),
+    keepIds: process.env.PRECLEAN_KEEP_IDS === "true",
+  };
+}
+
+// Elements that render something even without text content
+const MEDIA_SELECTOR = [
+  "img",
+  "picture",
+  "video",
+  "audio",
+  "svg",
+  "canvas",
+  "input",
+  "button",
+  "select",
+  "textarea",
+  "hr",
+  "br",
+].join(",");
+
+/**
+ * Deterministically strip scripts, tracking pixels, noisy attributes and
+ * empty wrappers before any HTML is sent to a model
+ */
+export function precleanHTML(
+  htmlContent: string,
+  rules: Partial<PrecleanRules> = {}
+): PrecleanResult {
+  const config: PrecleanRules = { ...DEFAULT_PRECLEAN_RULES, ...rules };
+  const root = parse(htmlContent, {
+    comment: !config.removeComments,
+    lowerCaseTagName: true,
+  });
+
+  let removedElements = 0;
+  let removedAttributes = 0;
+
+  for (const tag of config.removeTags) {
+    for (const element of root.querySelectorAll(tag)) {
+      element.remove();
+      removedElements++;
+    }
+  }
+
+  for (const style of root.querySelectorAll("style")) {
+    if (config.maxStyleChars <= 0) {
+      style.remove();
+      removedElements++;
+    } else if (style.rawText.length > config.maxStyleChars) {
+      style.set_content(style.rawText.substring(0, config.maxStyleChars));
+    }
+  }
+
+  for (const element of root.querySelectorAll("*")) {
+    if (config.removeHidden && isHidden(element)) {
+      element.remove();
+      removedElements++;
+      continue;
+    }
+
+    if (
+      config.removeTrackingPixels &&
+      element.rawTagName === "img" &&
+      isTrackingPixel(element, config.trackingHosts)
+    ) {
+      element.remove();
+      removedElements++;
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const attribute = name.toLowerCase();
+      const strip =
+        config.stripAttributePatterns.some((pattern) =>
+          pattern.test(attribute)
+        ) ||
+        (attribute === "id" && !config.keepIds);
+
+      if (strip) {
+        element.removeAttribute(name);
+        removedAttributes++;
+      } else if (config.stripDataUris && value.startsWith("data:")) {
+        element.setAttribute(name, "data:,");
+      } else if (attribute === "class") {
+        const classNames = value.split(/\s+/).filter(Boolean);
+        if (classNames.length > config.maxClassNames) {
+          element.setAttribute(
+            name,
+            classNames.slice(0, config.maxClassNames).join(" ")
+          );
+        }
+      }
+    }
+  }
+
+  if (config.removeEmptyWrappers) {
+    removedElements += removeEmptyWrappers(root, new Set(config.wrapperTags));
+  }
+
+  const html = root
+    .toString()
+    .replace(/\n\s*\n+/g, "\n")
+    .trim();
+  const savedChars = htmlContent.length - html.length;
+
+  const stats: PrecleanStats = {
+    originalLength: htmlContent.length,
+    cleanedLength: html.length,
+    savedChars,
+    savedPercent:
+      htmlContent.length > 0
+        ? Math.round((savedChars / htmlContent.length) * 100)
+        : 0,
+    removedElements,
+    removedAttributes,
+  };
+
+  console.log("[preclean-html] Stats: ", stats);
+
+  return { html, stats };
+}
+
+/**
+ * Pages that are already small after pre-cleaning don't need the LLM cleaner
+ */
+export function shouldSkipLLMClean(precleanedHTML: string): boolean {
+  const threshold = Number(process.env.PRECLEAN_SKIP_LLM_BELOW_CHARS) || 12000;
+  return precleanedHTML.length <= threshold;
+}
+
+function isHidden(element: HTMLElement): boolean {
+  if (element.hasAttribute("hidden")) return true;
+  if (
+    element.rawTagName === "input" &&
+    element.getAttribute("type")?.toLowerCase() === "hidden"
+  ) {
+    return true;
+  }
+  const style = (element.getAttribute("style") || "").replace(/\s+/g, "");
+  return /display:none|visibility:hidden/i.test(style);
+}
+
+// Missing or empty sizes are unknown (NaN), not 0
+function sizeAttribute(element: HTMLElement, name: string): number {
+  const value = element.getAttribute(name)?.trim();
+  return value ? Number.parseFloat(value) : NaN;
+}
+
+function isTrackingPixel(element: HTMLElement, trackingHosts: string[]): boolean {
+  if (sizeAttribute(element, "width") <= 1 && sizeAttribute(element, "height") <= 1) {
+    return true;
+  }
+  const src = (element.getAttribute("src") || "").toLowerCase();
+  return trackingHosts.some((host) => src.includes(host));
+}
+
+/**
+ * Remove wrappers that contain no text and no media, bottom-up so that
+ * nested empty wrappers collapse in one pass
+ */
+function removeEmptyWrappers(node: Node, wrapperTags: Set<string>): number {
+  let removed = 0;
+
+  for (const child of [...node.childNodes]) {
+    removed += removeEmptyWrappers(child, wrapperTags);
+  }
+
+  if (node.nodeType !== NodeType.ELEMENT_NODE) return removed;
+  const element = node as HTMLElement;
+
+  if (
+    wrapperTags.has(element.rawTagName) &&
+    element.text.trim().length === 0 &&
+    !element.hasAttribute("style") &&
+    !element.hasAttribute("aria-label") &&
+    !element.querySelector(MEDIA_SELECTOR)
+  ) {
+    element.remove();
+    removed++;
+  }
+
+  return removed;
+}
@@ -0,0 +1,146 @@
+import {
+  BATCH_MAX_ITEMS,
+  CONCURRENCY_ERROR,
+  createBatchTask,
+  isValidConcurrency,
+  parseBatchRequest,
+} from "./batch";
+import { parseGenerateRequest } from "./generate-website-image";
+import { collectSitemapUrls, type SitemapFilters, type SitemapSource } from "./sitemap";
+import type { FlightTask } from "./single-flight";
+
+// Every selected page becomes a batch item
+const PREWARM_MAX_URLS = Math.min(Number(process.env.PREWARM_MAX_URLS) || 100, BATCH_MAX_ITEMS);
+
+// Generate options that apply to every pre-warmed page
+const GENERATE_FIELDS = ["provider", "device", "fetchers", "force"];
+
+export interface PrewarmRequest {
+  source: SitemapSource;
+  filters: SitemapFilters;
+  generate: Record<string, unknown>;
+  concurrency?: number;
+}
+
+export type ParsedPrewarmRequest =
+  | { prewarm: PrewarmRequest }
+  | { error: string; issues?: unknown };
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Validate a pre-warm body: exactly one of `sitemap` (URL), `domain` or
+ * `xml`, optional `include`/`exclude` patterns and `maxUrls`, plus the
+ * generate options applied to every page.
+ */
+export function parsePrewarmRequest(body: Record<string, unknown>): ParsedPrewarmRequest {
+  const { sitemap, domain, xml, baseUrl, include, exclude, maxUrls, concurrency } = body;
+
+  const sources = [sitemap, domain, xml].filter((value) => value !== undefined);
+  if (sources.length !== 1 || typeof sources[0] !== "string" || !sources[0].trim()) {
+    return { error: "Provide exactly one of sitemap, domain or xml as a string" };
+  }
+
+  let source: SitemapSource;
+  if (typeof sitemap === "string") {
+    source = { sitemapUrl: sitemap.trim() };
+  } else if (typeof domain === "string") {
+    source = { domain: domain.trim() };
+  } else {
+    source = { xml: xml as string, baseUrl: typeof baseUrl === "string" ? baseUrl : undefined };
+  }
+
+  if ((include !== undefined && !isStringArray(include)) || (exclude !== undefined && !isStringArray(exclude))) {
+    return { error: "include and exclude must be arrays of patterns" };
+  }
+
+  const limit = maxUrls ?? PREWARM_MAX_URLS;
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > BATCH_MAX_ITEMS) {
+    return { error: `maxUrls must be an integer from 1 to ${BATCH_MAX_ITEMS}` };
+  }
+
+  if (concurrency !== undefined && !isValidConcurrency(concurrency)) {
+    return { error: CONCURRENCY_ERROR };
+  }
+
+  const generate = Object.fromEntries(
+    Object.entries(body).filter(([name]) => GENERATE_FIELDS.includes(name))
+  );
+  // Check the shared options now, so a typo is a 400 rather than a failed job
+  const check = parseGenerateRequest({ ...generate, url: "https://example.com" });
+  if ("error" in check) return check;
+
+  return {
+    prewarm: {
+      source,
+      filters: { include, exclude, maxUrls: limit },
+      generate,
+      concurrency,
+    },
+  };
+}
+
+/**
+ * Read the sitemap, then render the selected pages as a batch that only
+ * fills the image cache. Pages already cached are cache hits and finish
+ * immediately, unless `force` is set.
+ */
+export function createPrewarmTask(prewarm: PrewarmRequest, distinctId: string): FlightTask {
+  return async (emit, signal) => {
+    emit({
+      step: "sitemap_reading",
+      message: "Reading sitemap...",
+    });
+
+    const collection = await collectSitemapUrls(
+      prewarm.source,
+      prewarm.filters,
+      (sitemap, found) => {
+        emit({
+          step: "sitemap_read",
+          message: `Read ${sitemap} (${found} entries)`,
+          sitemap,
+          found,
+        });
+      },
+      signal
+    );
+
+    if (signal.aborted) return;
+
+    emit({
+      step: "urls_collected",
+      message: `Selected ${collection.urls.length} of ${collection.discovered} URLs`,
+      urls: collection.urls,
+      discovered: collection.discovered,
+      sitemaps: collection.sitemaps.length,
+      sitemapErrors: collection.errors,
+    });
+
+    if (collection.urls.length === 0) {
+      emit({
+        step: "error",
+        error:
+          collection.sitemaps.length === 0 && collection.errors.length > 0
+            ? `No sitemap could be read: ${collection.errors[0].error}`
+            : "No URLs matched the filters",
+      });
+      return;
+    }
+
+    const parsed = parseBatchRequest({
+      ...prewarm.generate,
+      items: collection.urls,
+      concurrency: prewarm.concurrency,
+    });
+    if ("error" in parsed) {
+      emit({ step: "error", error: parsed.error });
+      return;
+    }
+
+    console.log(`🔥 Pre-warming ${collection.urls.length} URLs`);
+    await createBatchTask({ ...parsed.batch, storeImages: false }, distinctId)(emit, signal);
+  };
+}
@@ -0,0 +1,260 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIError } from "openai";
+import { ApiError as GeminiApiError } from "@google/genai";
+import { sleep } from "./rate-limit";
+
+export type ProviderErrorKind =
+  | "rate_limited"
+  | "content_policy"
+  | "timeout"
+  | "invalid_request"
+  | "upstream"
+  | "unknown";
+
+export interface ProviderErrorDetails {
+  provider: string;
+  status?: number;
+  // How long the provider asked us to wait before retrying
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+const RETRYABLE_KINDS = new Set<ProviderErrorKind>(["rate_limited", "timeout", "upstream"]);
+
+// Shown to end users, who can't act on status codes or SDK messages
+const USER_MESSAGES: Record<ProviderErrorKind, string> = {
+  rate_limited: "The image service is busy right now. Please try again in a minute.",
+  content_policy:
+    "The image model refused to draw this page because of its content policy. Trying again won't help; try a different page.",
+  timeout: "The image service took too long to respond. Please try again later.",
+  invalid_request: "The image service couldn't process this page.",
+  upstream: "The image service is having problems right now. Please try again later.",
+  unknown: "Image generation failed.",
+};
+
+/**
+ * A failed image provider call, classified so callers can decide whether
+ * to retry and what to tell the user
+ */
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(readonly kind: ProviderErrorKind, message: string, details: ProviderErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = "ProviderError";
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+
+  get userMessage(): string {
+    return USER_MESSAGES[this.kind];
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("rate_limited", message, details);
+    this.name = "RateLimitedError";
+  }
+}
+
+export class ContentPolicyError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("content_policy", message, details);
+    this.name = "ContentPolicyError";
+  }
+}
+
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("timeout", message, details);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("invalid_request", message, details);
+    this.name = "InvalidRequestError";
+  }
+}
+
+export class UpstreamError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super("upstream", message, details);
+    this.name = "UpstreamError";
+  }
+}
+
+// OpenAI error codes for prompts or images rejected by moderation
+const OPENAI_CONTENT_POLICY_CODES = new Set(["content_policy_violation", "moderation_blocked"]);
+
+/**
+ * Parse a Retry-After header: delay in seconds, or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function retryAfterOf(error: unknown): number | undefined {
+  if (error instanceof APIError && error.headers) {
+    const ms = Number(error.headers.get("retry-after-ms"));
+    if (Number.isFinite(ms) && ms > 0) return ms;
+    return parseRetryAfter(error.headers.get("retry-after"));
+  }
+  if (error instanceof GeminiApiError) {
+    // Gemini sends it as google.rpc.RetryInfo in the JSON body, e.g. "retryDelay": "37s"
+    const match = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Wrap an error from an image provider SDK in the matching ProviderError
+ */
+export function classifyProviderError(error: unknown, provider: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  const message = `${provider} generation failed: ${
+    error instanceof Error ? error.message : String(error)
+  }`;
+  const status =
+    error instanceof APIError || error instanceof GeminiApiError
+      ? error.status ?? undefined
+      : undefined;
+  const details: ProviderErrorDetails = {
+    provider,
+    status,
+    retryAfterMs: retryAfterOf(error),
+    cause: error,
+  };
+
+  if (
+    error instanceof APIConnectionTimeoutError ||
+    (error instanceof Error && error.name === "TimeoutError") ||
+    status === 408 ||
+    status === 504
+  ) {
+    return new ProviderTimeoutError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitedError(message, details);
+  }
+  if (
+    (error instanceof APIError && error.code && OPENAI_CONTENT_POLICY_CODES.has(error.code)) ||
+    (status === 400 && /safety system|content policy/i.test(message))
+  ) {
+    return new ContentPolicyError(message, details);
+  }
+  if (status !== undefined && status >= 500) {
+    return new UpstreamError(message, details);
+  }
+  if (status !== undefined && status >= 400) {
+    return new InvalidRequestError(message, details);
+  }
+  // Connection resets and DNS failures never got a status
+  if (
+    error instanceof APIConnectionError ||
+    (error instanceof TypeError && message.includes("fetch failed"))
+  ) {
+    return new UpstreamError(message, details);
+  }
+  return new ProviderError("unknown", message, details);
+}
+
+export interface RetryPolicy {
+  // Including the first attempt; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Retry-After waits longer than this fail instead of holding the request
+  maxDelayMs: number;
+}
+
+export const PROVIDER_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Math.max(1, Math.floor(Number(process.env.PROVIDER_RETRY_MAX_ATTEMPTS) || 3)),
+  baseDelayMs: Number(process.env.PROVIDER_RETRY_BASE_DELAY_MS) || 1000,
+  maxDelayMs: Number(process.env.PROVIDER_RETRY_MAX_DELAY_MS) || 30_000,
+};
+
+/**
+ * How long to wait before retry number `attempt`: exponential backoff with
+ * full jitter, but never less than the provider's Retry-After. Null means
+ * don't retry.
+ */
+export function retryDelay(
+  error: ProviderError,
+  attempt: number,
+  policy: RetryPolicy = PROVIDER_RETRY_POLICY
+): number | null {
+  if (!error.retryable || attempt >= policy.maxAttempts) return null;
+  const backoff = Math.round(
+    Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  );
+  if (error.retryAfterMs === undefined) return backoff;
+  return error.retryAfterMs <= policy.maxDelayMs ? Math.max(error.retryAfterMs, backoff) : null;
+}
+
+export interface RetryOptions {
+  provider: string;
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  // Awaited before every attempt, e.g. to take a rate limit slot
+  beforeAttempt?: (attempt: number) => Promise<void> | void;
+  // Called before waiting `delayMs` for attempt `attempt + 1`
+  onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run a provider call, retrying rate limits, timeouts and 5xx responses.
+ * Failures are rethrown as ProviderErrors; aborts are rethrown as-is.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  { provider, policy = PROVIDER_RETRY_POLICY, signal, beforeAttempt, onRetry }: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    await beforeAttempt?.(attempt);
+    try {
+      return await task(attempt);
+    } catch (error) {
+      signal?.throwIfAborted();
+      const classified = classifyProviderError(error, provider);
+      const delayMs = retryDelay(classified, attempt, policy);
+      if (delayMs === null) throw classified;
+
+      console.warn(
+        `🔁 ${provider} ${classified.kind} on attempt ${attempt}/${policy.maxAttempts}, retrying in ${delayMs}ms`
+      );
+      onRetry?.(classified, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * The fields of an SSE "error" event for `error`. Provider errors add their
+ * kind and, as `message`, an explanation meant for end users.
+ */
+export function errorEventFields(error: unknown): {
+  error: string;
+  errorKind?: ProviderErrorKind;
+  message?: string;
+} {
+  if (error instanceof ProviderError) {
+    return { error: error.message, errorKind: error.kind, message: error.userMessage };
+  }
+  return { error: error instanceof Error ? error.message : "Unknown error" };
+}
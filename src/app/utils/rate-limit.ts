@@ -0,0 +1,133 @@
+/**
+ * Run at most `limit` tasks at once; the rest wait in arrival order
+ */
+export function createConcurrencyLimiter(limit: number) {
+  const max = Math.max(1, Math.floor(limit));
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  // A finished task hands its slot straight to the next waiter, so a new
+  // caller can't take it in between
+  const release = () => {
+    const waiter = queue.shift();
+    if (waiter) {
+      waiter();
+    } else {
+      active--;
+    }
+  };
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= max) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+/**
+ * Resolve after `ms`, or reject with an AbortError as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+const WINDOW_UNITS: Record<string, number> = {
+  s: 1000,
+  sec: 1000,
+  m: 60_000,
+  min: 60_000,
+  h: 3_600_000,
+  hour: 3_600_000,
+};
+
+/**
+ * Parse PROVIDER_RATE_LIMITS, e.g. "gpt-image-1=5/min,gemini-2.5-flash-image-preview=60/min".
+ * Malformed entries are skipped with a warning.
+ */
+export function parseRateLimits(spec: string | undefined): Map<string, RateLimit> {
+  const limits = new Map<string, RateLimit>();
+  for (const entry of (spec || "").split(",")) {
+    if (!entry.trim()) continue;
+    const match = entry.trim().match(/^([^=]+)=(\d+)\/([a-z]+)$/i);
+    const windowMs = match ? WINDOW_UNITS[match[3].toLowerCase()] : undefined;
+    if (!match || !windowMs || Number(match[2]) < 1) {
+      console.warn(`⚠️ Ignoring invalid rate limit: ${entry.trim()}`);
+      continue;
+    }
+    limits.set(match[1].trim(), { requests: Number(match[2]), windowMs });
+  }
+  return limits;
+}
+
+/**
+ * Sliding-window limits on image generation calls, per provider. Shared by
+ * every request in this process; providers without a limit never wait.
+ */
+export class ProviderRateLimiter {
+  private calls = new Map<string, number[]>();
+
+  constructor(private readonly limits: Map<string, RateLimit>) {}
+
+  // How long until `provider` may be called again; 0 means now
+  private delayFor(provider: string, limit: RateLimit): number {
+    const now = Date.now();
+    const recent = (this.calls.get(provider) ?? []).filter(
+      (time) => time > now - limit.windowMs
+    );
+    this.calls.set(provider, recent);
+    return recent.length < limit.requests ? 0 : recent[0] + limit.windowMs - now;
+  }
+
+  /**
+   * Wait for a call slot. `onWait` is told how long the first wait will be,
+   * so callers can report it. Rejects with an AbortError if `signal` aborts.
+   */
+  async acquire(
+    provider: string,
+    signal?: AbortSignal,
+    onWait?: (delayMs: number) => void
+  ): Promise<void> {
+    const limit = this.limits.get(provider);
+    if (!limit) return;
+
+    let notified = false;
+    for (let delay = this.delayFor(provider, limit); delay > 0; delay = this.delayFor(provider, limit)) {
+      if (!notified) {
+        onWait?.(delay);
+        notified = true;
+      }
+      await sleep(delay, signal);
+    }
+    this.calls.get(provider)?.push(Date.now());
+  }
+}
+
+export const providerRateLimiter = new ProviderRateLimiter(
+  parseRateLimits(process.env.PROVIDER_RATE_LIMITS)
+);
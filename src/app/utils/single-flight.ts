@@ -0,0 +1,117 @@
+import type { BatchEvent, GenerationEvent } from "./sse-protocol";
+
+// One SSE payload, e.g. { step: "generating", message: "..." }
+export type FlightEvent = GenerationEvent | BatchEvent;
+
+export type FlightTask = (
+  emit: (event: FlightEvent) => void,
+  signal: AbortSignal
+) => Promise<void>;
+
+export interface FlightListener {
+  onEvent: (event: FlightEvent) => void;
+  // Called once when the task finishes, whether it succeeded or not
+  onDone: () => void;
+}
+
+export interface FlightSubscription {
+  role: "leader" | "follower";
+  unsubscribe: () => void;
+}
+
+class Flight {
+  readonly events: FlightEvent[] = [];
+  readonly listeners = new Set<FlightListener>();
+  readonly controller = new AbortController();
+  done = false;
+
+  publish(event: FlightEvent): void {
+    if (this.done) return;
+    // Late joiners only need the newest partial image
+    if (event.step === "partial_image") {
+      const previous = this.events.findIndex((existing) => existing.step === "partial_image");
+      if (previous !== -1) this.events.splice(previous, 1);
+    }
+    this.events.push(event);
+    for (const listener of this.listeners) {
+      listener.onEvent(event);
+    }
+  }
+
+  finish(): void {
+    if (this.done) return;
+    this.done = true;
+    for (const listener of this.listeners) {
+      listener.onDone();
+    }
+    this.listeners.clear();
+  }
+}
+
+// Flights running in this process, by key
+const flights = new Map<string, Flight>();
+
+function endFlight(key: string | null, flight: Flight): void {
+  if (key && flights.get(key) === flight) {
+    flights.delete(key);
+  }
+}
+
+/**
+ * Run `task` once per key. The first caller leads and starts the task;
+ * callers with the same key while it runs follow it, receiving the events
+ * published so far (only the latest partial image) and then the live ones.
+ * The task is aborted when its last listener unsubscribes. A null key always
+ * runs the task on its own. Coalescing only spans this process: other
+ * instances don't see its flights and run the same work themselves.
+ */
+export function joinFlight(
+  key: string | null,
+  task: FlightTask,
+  listener: FlightListener
+): FlightSubscription {
+  const existing = key ? flights.get(key) : undefined;
+  if (existing) {
+    console.log(`🤝 Joining in-flight generation (${existing.listeners.size} listening)`);
+    for (const event of existing.events) {
+      listener.onEvent(event);
+    }
+    existing.listeners.add(listener);
+    return { role: "follower", unsubscribe: () => leave(key, existing, listener) };
+  }
+
+  const flight = new Flight();
+  flight.listeners.add(listener);
+  if (key) {
+    flights.set(key, flight);
+  }
+
+  const run = async () => {
+    try {
+      await task((event) => flight.publish(event), flight.controller.signal);
+    } catch (error) {
+      flight.publish({
+        step: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      endFlight(key, flight);
+      flight.finish();
+    }
+  };
+  run().catch((error) => {
+    console.error("❌ Flight failed:", error);
+  });
+
+  return { role: "leader", unsubscribe: () => leave(key, flight, listener) };
+}
+
+function leave(key: string | null, flight: Flight, listener: FlightListener): void {
+  flight.listeners.delete(listener);
+  if (flight.listeners.size === 0 && !flight.done) {
+    console.log("🚫 Last listener left, aborting generation");
+    // New requests must start a fresh flight rather than join an aborting one
+    endFlight(key, flight);
+    flight.controller.abort();
+  }
+}
@@ -0,0 +1,245 @@
+import { httpFetch } from "./http-fetch";
+import { DEFAULT_HEADERS } from "./html-fetchers";
+import { canonicalUrlRulesFromEnv, tryCanonicalizeUrl } from "./canonical-url";
+
+const SITEMAP_CONTENT_TYPES = [
+  "application/xml",
+  "text/xml",
+  "application/rss+xml",
+  "application/atom+xml",
+  "text/plain",
+];
+const DEFAULT_SITEMAP_MAX_BYTES = 10 * 1024 * 1024; // The protocol allows up to 50 MB
+const DEFAULT_MAX_SITEMAPS = 50;
+
+export interface ParsedSitemap {
+  // A sitemap index lists further sitemaps; a urlset lists pages
+  kind: "urlset" | "sitemapindex";
+  locations: string[];
+}
+
+export interface SitemapFilters {
+  // Glob patterns ("*" matches anything); see filterUrls
+  include?: string[];
+  exclude?: string[];
+  maxUrls?: number;
+  // Sitemaps fetched while following indexes
+  maxSitemaps?: number;
+}
+
+export interface SitemapCollection {
+  urls: string[];
+  sitemaps: string[];
+  // Sitemaps that couldn't be fetched or parsed; the rest are still used
+  errors: Array<{ sitemap: string; error: string }>;
+  // URLs found before filtering and the maximum count
+  discovered: number;
+}
+
+/**
+ * A sitemap to read: a sitemap URL, a domain (sitemaps are looked up in
+ * robots.txt, falling back to /sitemap.xml) or an uploaded document.
+ */
+export type SitemapSource =
+  | { sitemapUrl: string }
+  | { domain: string }
+  | { xml: string; baseUrl?: string };
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Read the <loc> entries of a sitemap or sitemap index. Plain-text sitemaps
+ * (one absolute URL per line) are accepted too. Relative XML locations
+ * resolve against `baseUrl`; anything that isn't http(s) is dropped.
+ */
+export function parseSitemap(body: string, baseUrl?: string): ParsedSitemap {
+  const isIndex = /<sitemapindex[\s>]/i.test(body);
+  const isXml = isIndex || /<urlset[\s>]/i.test(body);
+  const raw = isXml
+    ? Array.from(
+        body.matchAll(
+          isIndex
+            ? /<sitemap[\s>][\s\S]*?<loc>([\s\S]*?)<\/loc>/gi
+            : /<url[\s>][\s\S]*?<loc>([\s\S]*?)<\/loc>/gi
+        ),
+        (match) => decodeXmlText(match[1])
+      )
+    : body.split(/\r?\n/).map((line) => line.trim());
+
+  const locations: string[] = [];
+  for (const location of raw) {
+    if (!location) continue;
+    try {
+      // Text sitemaps must list absolute URLs
+      const url = new URL(location, isXml ? baseUrl : undefined);
+      if (url.protocol === "http:" || url.protocol === "https:") {
+        locations.push(url.toString());
+      }
+    } catch {
+      // Not a URL, e.g. a comment line in a text sitemap
+    }
+  }
+
+  return { kind: isIndex ? "sitemapindex" : "urlset", locations };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Apply include/exclude patterns. A pattern without "://" matches against
+ * the path and query, so "/blog/*" works for any host.
+ */
+export function filterUrls(urls: string[], { include, exclude }: SitemapFilters): string[] {
+  const toTest = (pattern: string) => {
+    const regex = globToRegExp(pattern);
+    return pattern.includes("://")
+      ? (url: URL) => regex.test(url.toString())
+      : (url: URL) => regex.test(url.pathname + url.search);
+  };
+  const includes = (include ?? []).map(toTest);
+  const excludes = (exclude ?? []).map(toTest);
+
+  return urls.filter((value) => {
+    const url = new URL(value);
+    return (
+      (includes.length === 0 || includes.some((test) => test(url))) &&
+      !excludes.some((test) => test(url))
+    );
+  });
+}
+
+function sitemapMaxBytes(): number {
+  const configured = Number(process.env.SITEMAP_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_SITEMAP_MAX_BYTES;
+}
+
+async function fetchSitemap(url: string, signal?: AbortSignal): Promise<string> {
+  const { body, truncated } = await httpFetch(url, {
+    headers: DEFAULT_HEADERS,
+    maxBytes: sitemapMaxBytes(),
+    allowedContentTypes: SITEMAP_CONTENT_TYPES,
+    signal,
+  });
+  if (truncated) {
+    console.log(`⚠️ Sitemap ${url} exceeds ${sitemapMaxBytes()} bytes, reading the first part only`);
+  }
+  return body;
+}
+
+/**
+ * Sitemaps advertised in a domain's robots.txt, or its /sitemap.xml
+ */
+export async function discoverSitemaps(domain: string, signal?: AbortSignal): Promise<string[]> {
+  const origin = new URL(/^https?:\/\//i.test(domain) ? domain : `https://${domain}`).origin;
+
+  try {
+    const robots = await httpFetch(`${origin}/robots.txt`, {
+      headers: DEFAULT_HEADERS,
+      allowedContentTypes: ["text/plain"],
+      signal,
+    });
+    const sitemaps = Array.from(
+      robots.body.matchAll(/^\s*sitemap\s*:\s*(\S+)/gim),
+      (match) => new URL(match[1], origin).toString()
+    );
+    if (sitemaps.length > 0) return sitemaps;
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.log(`⚠️ Could not read robots.txt for ${origin}:`, error instanceof Error ? error.message : error);
+  }
+
+  return [`${origin}/sitemap.xml`];
+}
+
+/**
+ * Collect page URLs from a sitemap source, following sitemap indexes
+ * breadth-first. URLs are canonicalized and deduplicated, then filtered;
+ * collection stops early once `maxUrls` pass the filters. Aborting `signal`
+ * stops the crawl with an AbortError.
+ */
+export async function collectSitemapUrls(
+  source: SitemapSource,
+  filters: SitemapFilters = {},
+  onSitemap?: (sitemap: string, found: number) => void,
+  signal?: AbortSignal
+): Promise<SitemapCollection> {
+  const maxSitemaps = filters.maxSitemaps ?? DEFAULT_MAX_SITEMAPS;
+  const maxUrls = filters.maxUrls ?? Infinity;
+  const rules = canonicalUrlRulesFromEnv();
+  const seenUrls = new Set<string>();
+  const seenSitemaps = new Set<string>();
+  const result: SitemapCollection = { urls: [], sitemaps: [], errors: [], discovered: 0 };
+
+  const addPages = (locations: string[]) => {
+    const fresh: string[] = [];
+    for (const location of locations) {
+      const url = tryCanonicalizeUrl(location, rules);
+      if (seenUrls.has(url)) continue;
+      seenUrls.add(url);
+      fresh.push(url);
+    }
+    result.discovered += fresh.length;
+    for (const url of filterUrls(fresh, filters)) {
+      if (result.urls.length >= maxUrls) break;
+      result.urls.push(url);
+    }
+  };
+
+  let queue: string[];
+  if ("xml" in source) {
+    const parsed = parseSitemap(source.xml, source.baseUrl);
+    onSitemap?.("(uploaded)", parsed.locations.length);
+    if (parsed.kind === "urlset") {
+      addPages(parsed.locations);
+      return result;
+    }
+    queue = parsed.locations;
+  } else if ("domain" in source) {
+    queue = await discoverSitemaps(source.domain, signal);
+  } else {
+    queue = [source.sitemapUrl];
+  }
+
+  while (queue.length > 0 && result.urls.length < maxUrls) {
+    signal?.throwIfAborted();
+    const sitemap = queue.shift()!;
+    if (seenSitemaps.has(sitemap)) continue;
+    if (seenSitemaps.size >= maxSitemaps) {
+      console.log(`⚠️ Stopping after ${maxSitemaps} sitemaps`);
+      break;
+    }
+    seenSitemaps.add(sitemap);
+
+    try {
+      const parsed = parseSitemap(await fetchSitemap(sitemap, signal), sitemap);
+      result.sitemaps.push(sitemap);
+      onSitemap?.(sitemap, parsed.locations.length);
+      if (parsed.kind === "sitemapindex") {
+        queue.push(...parsed.locations);
+      } else {
+        addPages(parsed.locations);
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Failed to read sitemap ${sitemap}:`, message);
+      result.errors.push({ sitemap, error: message });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,390 @@
+// Shared by the API routes and the hooks, so keep this free of Node imports
+import { z } from "zod";
+import type { HtmlFetchDetails } from "./html-fetchers";
+import type { PrecleanStats } from "./preclean-html";
+import type { ChunkingInfo } from "./token-budget";
+import type { PageOutline } from "./page-outline";
+import type { StyleSummary } from "./extract-styles";
+import type { CachedStage } from "./artifact-cache";
+import type { BatchManifestItem } from "./batch";
+import type { ProviderErrorKind } from "./provider-errors";
+
+// Bump when an event changes incompatibly; clients reject other versions
+export const SSE_PROTOCOL_VERSION = 1;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no", // Disable buffering on nginx/proxies
+};
+
+// Nested payloads are defined by their own modules; only their shape is checked here
+function payload<T>() {
+  return z.custom<T>((value) => typeof value === "object" && value !== null);
+}
+
+function stepEvent<S extends string>(step: S) {
+  return z.object({ step: z.literal(step), message: z.string() });
+}
+
+const CachedStagesSchema = z.array(
+  z.enum(["validation", "html", "cleaned", "description", "image"])
+) satisfies z.ZodType<CachedStage[]>;
+
+const ProviderErrorKindSchema = z.enum([
+  "rate_limited",
+  "content_policy",
+  "timeout",
+  "invalid_request",
+  "upstream",
+  "unknown",
+]) satisfies z.ZodType<ProviderErrorKind>;
+
+const ErrorEventSchema = z.object({
+  step: z.literal("error"),
+  // Technical detail, for logs
+  error: z.string(),
+  // For end users; says whether trying again may help
+  message: z.string().optional(),
+  errorKind: ProviderErrorKindSchema.optional(),
+});
+
+const CancelledEventSchema = stepEvent("cancelled");
+
+const FetchedEventSchema = stepEvent("fetched").extend({
+  fetchDetails: payload<HtmlFetchDetails>(),
+  fromCache: z.boolean().optional(),
+});
+
+const ChunkingEventSchema = stepEvent("chunking").extend({
+  chunking: payload<ChunkingInfo>(),
+});
+
+/**
+ * Events of one generation: POST /api/generate-image and /api/jobs
+ */
+export const GenerationEventSchema = z.discriminatedUnion("step", [
+  stepEvent("checking_cache"),
+  stepEvent("revalidating"),
+  stepEvent("validating"),
+  stepEvent("validated").extend({ fromCache: z.boolean().optional() }),
+  stepEvent("fetching"),
+  FetchedEventSchema,
+  stepEvent("styles_extracted").extend({ styles: payload<StyleSummary>() }),
+  stepEvent("precleaned").extend({ precleanStats: payload<PrecleanStats>() }),
+  stepEvent("describing"),
+  ChunkingEventSchema,
+  stepEvent("described").extend({
+    outline: z.custom<PageOutline | null>((value) => typeof value === "object"),
+    cachedStages: CachedStagesSchema,
+  }),
+  stepEvent("rate_limited"),
+  stepEvent("generating"),
+  stepEvent("retrying").extend({ attempt: z.number(), delayMs: z.number() }),
+  // The provider failed, possibly after partial images; `to` starts over
+  stepEvent("provider_fallback").extend({
+    from: z.string(),
+    to: z.string(),
+    errorKind: ProviderErrorKindSchema.optional(),
+  }),
+  stepEvent("partial_image").extend({
+    image: z.string(),
+    mediaType: z.string(),
+    partialIndex: z.number(),
+    isPartial: z.literal(true).optional(),
+  }),
+  stepEvent("completed").extend({
+    // Absent only when the provider finished without yielding an image
+    image: z.string().optional(),
+    mediaType: z.string().optional(),
+    revisedPrompt: z.string().optional(),
+    cached: z.boolean().optional(),
+    // Served from an outdated cache entry; a "refreshed" event may follow
+    stale: z.boolean().optional(),
+    blobUrl: z.string().optional(),
+    // The model that drew the image, which differs from the requested one
+    // after a provider_fallback
+    model: z.string().optional(),
+    cachedStages: CachedStagesSchema.optional(),
+    timing: z
+      .object({
+        imageGeneration: z.string(),
+        // Milliseconds spent in each pipeline stage before generating
+        stages: z.record(z.string(), z.number()).optional(),
+      })
+      .optional(),
+  }),
+  stepEvent("refreshed").extend({
+    image: z.string(),
+    mediaType: z.string(),
+    revisedPrompt: z.string().optional(),
+  }),
+  CancelledEventSchema,
+  ErrorEventSchema,
+]);
+
+export type GenerationEvent = z.infer<typeof GenerationEventSchema>;
+
+const BatchItemSchema = z.object({
+  index: z.number(),
+  url: z.string().optional(),
+  provider: z.string(),
+  device: z.string(),
+  status: z.enum(["completed", "failed", "cancelled"]),
+  cached: z.boolean().optional(),
+  mediaType: z.string().optional(),
+  revisedPrompt: z.string().optional(),
+  image: z.string().optional(),
+  error: z.string().optional(),
+  durationMs: z.number().optional(),
+}) satisfies z.ZodType<BatchManifestItem>;
+
+/**
+ * Events of /api/batch and /api/prewarm
+ */
+export const BatchEventSchema = z.discriminatedUnion("step", [
+  stepEvent("sitemap_reading"),
+  stepEvent("sitemap_read").extend({ sitemap: z.string(), found: z.number() }),
+  stepEvent("urls_collected").extend({
+    urls: z.array(z.string()),
+    discovered: z.number(),
+    sitemaps: z.number(),
+    sitemapErrors: z.array(z.object({ sitemap: z.string(), error: z.string() })),
+  }),
+  stepEvent("batch_started").extend({
+    batchId: z.string(),
+    total: z.number(),
+    concurrency: z.number(),
+  }),
+  z.object({
+    step: z.literal("item_progress"),
+    message: z.string().optional(),
+    index: z.number(),
+    // The item's own generation step
+    itemStep: z.string(),
+    fromCache: z.boolean().optional(),
+  }),
+  stepEvent("item_completed").merge(BatchItemSchema),
+  stepEvent("item_failed").merge(BatchItemSchema),
+  stepEvent("batch_completed").extend({
+    batchId: z.string(),
+    succeeded: z.number(),
+    failed: z.number(),
+    cancelled: z.number(),
+    manifestUrl: z.string(),
+  }),
+  CancelledEventSchema,
+  ErrorEventSchema,
+]);
+
+export type BatchEvent = z.infer<typeof BatchEventSchema>;
+
+const DualImageSchema = z.object({
+  base64: z.string(),
+  mediaType: z.string(),
+  revisedPrompt: z.string().optional(),
+});
+
+/**
+ * Events of the experimental /api/generate-image-dual
+ */
+export const DualEventSchema = z.discriminatedUnion("step", [
+  stepEvent("fetching"),
+  FetchedEventSchema,
+  stepEvent("processing"),
+  ChunkingEventSchema,
+  stepEvent("processed").extend({
+    stats: z.object({ cleanedLength: z.number(), promptLength: z.number() }),
+    precleanStats: payload<PrecleanStats>(),
+    styles: payload<StyleSummary>(),
+  }),
+  stepEvent("generating"),
+  stepEvent("completed").extend({
+    htmlBasedImage: DualImageSchema,
+    descriptionBasedImage: DualImageSchema,
+    imagePrompt: z.string(),
+    stats: z.object({
+      originalHTMLLength: z.number(),
+      cleanedHTMLLength: z.number(),
+      promptLength: z.number(),
+      totalTime: z.number(),
+      fetchTime: z.number(),
+      processingTime: z.number(),
+      imageTime: z.number(),
+    }),
+  }),
+  ErrorEventSchema,
+]);
+
+export type DualEvent = z.infer<typeof DualEventSchema>;
+
+export type SseEvent = GenerationEvent | BatchEvent | DualEvent;
+
+/**
+ * Serialize one event, stamped with the protocol version
+ */
+export function encodeSseEvent(event: SseEvent, id?: number | string): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}data: ${JSON.stringify({ version: SSE_PROTOCOL_VERSION, ...event })}\n\n`;
+}
+
+/**
+ * Writes events to a ReadableStream controller. Writes after the client
+ * has gone away are dropped instead of throwing.
+ */
+export class SseEmitter<E extends SseEvent> {
+  private readonly encoder = new TextEncoder();
+  private closed = false;
+
+  constructor(private readonly controller: ReadableStreamDefaultController<Uint8Array>) {}
+
+  send(event: E, id?: number | string): void {
+    this.write(encodeSseEvent(event, id));
+    if (event.step === "partial_image") {
+      // Add padding comment to force flush (2KB padding to bypass any buffering)
+      this.write(`:${" ".repeat(2048)}\n\n`);
+    }
+  }
+
+  // End the stream with the [DONE] sentinel
+  done(): void {
+    this.write("data: [DONE]\n\n");
+    this.close();
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      this.controller.close();
+    } catch {
+      // Already closed or cancelled by the client
+    }
+  }
+
+  private write(text: string): void {
+    if (this.closed) return;
+    try {
+      this.controller.enqueue(this.encoder.encode(text));
+    } catch {
+      this.closed = true;
+    }
+  }
+}
+
+export interface SseParserHandlers<E> {
+  onEvent: (event: E, id?: string) => void;
+  onDone?: () => void;
+  // Malformed JSON, another protocol version or an event the schema rejects
+  onInvalid?: (data: string, reason: string) => void;
+}
+
+/**
+ * Incremental parser for the event streams above, independent of any UI
+ * framework. Feed it decoded text; events are validated against `schema`.
+ */
+export class SseParser<E> {
+  private buffer = "";
+  private data: string[] = [];
+  private id?: string;
+  done = false;
+
+  constructor(
+    private readonly schema: z.ZodType<E, z.ZodTypeDef, unknown>,
+    private readonly handlers: SseParserHandlers<E>
+  ) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() || ""; // Keep incomplete line in buffer
+
+    for (const rawLine of lines) {
+      if (this.done) return;
+      const line = rawLine.replace(/\r$/, "");
+
+      if (line === "") {
+        this.dispatch();
+      } else if (line.startsWith(":")) {
+        continue; // Comment, used for padding
+      } else if (line.startsWith("data:")) {
+        this.data.push(line.slice(5).replace(/^ /, ""));
+      } else if (line.startsWith("id:")) {
+        this.id = line.slice(3).trim();
+      }
+    }
+  }
+
+  private dispatch(): void {
+    if (this.data.length === 0) return;
+    const data = this.data.join("\n").trim();
+    const id = this.id;
+    this.data = [];
+    this.id = undefined;
+
+    if (data === "[DONE]") {
+      this.done = true;
+      this.handlers.onDone?.();
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.handlers.onInvalid?.(data, "Malformed JSON");
+      return;
+    }
+
+    const { version, ...event } = (parsed ?? {}) as { version?: unknown };
+    if (version !== SSE_PROTOCOL_VERSION) {
+      this.handlers.onInvalid?.(data, `Unsupported protocol version: ${String(version)}`);
+      return;
+    }
+
+    const result = this.schema.safeParse(event);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      this.handlers.onInvalid?.(
+        data,
+        issue ? `${issue.path.join(".") || "event"}: ${issue.message}` : "Invalid event"
+      );
+      return;
+    }
+    this.handlers.onEvent(result.data, id);
+  }
+}
+
+/**
+ * Read an event stream to its end, [DONE] or `signal` aborting. Resolves
+ * with whether [DONE] was received; a stream that ends without it was cut
+ * off. Network errors reject.
+ */
+export async function readSseStream<E>(
+  body: ReadableStream<Uint8Array>,
+  schema: z.ZodType<E, z.ZodTypeDef, unknown>,
+  handlers: SseParserHandlers<E>,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const parser = new SseParser(schema, handlers);
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+
+  while (!parser.done) {
+    // Check if request was aborted
+    if (signal?.aborted) {
+      await reader.cancel();
+      return false;
+    }
+
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+
+  if (parser.done) {
+    await reader.cancel();
+  }
+  return parser.done;
+}
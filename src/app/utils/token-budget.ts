@@ -0,0 +1,157 @@
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+
+// Same rough heuristic the prompts already use (~4 characters per token)
+export const CHARS_PER_TOKEN = 4;
+
+const DEFAULT_CHUNK_MAX_TOKENS = 50000;
+const DEFAULT_MAX_CHUNKS = 12;
+
+// Landmark elements that should start a new chunk where possible
+const SECTION_TAGS = new Set([
+  "header",
+  "nav",
+  "main",
+  "section",
+  "article",
+  "aside",
+  "footer",
+]);
+
+export interface HTMLChunk {
+  index: number;
+  html: string;
+  estimatedTokens: number;
+  // Landmark tags found at the top level of this chunk, e.g. ["header", "nav"]
+  sections: string[];
+}
+
+export interface ChunkingInfo {
+  estimatedTokens: number;
+  maxChunkTokens: number;
+  chunkCount: number;
+  // Chunks beyond the configured maximum that were not described
+  droppedChunks: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function getChunkMaxTokens(): number {
+  return Number(process.env.HTML_CHUNK_MAX_TOKENS) || DEFAULT_CHUNK_MAX_TOKENS;
+}
+
+export function getMaxChunks(): number {
+  return Number(process.env.HTML_MAX_CHUNKS) || DEFAULT_MAX_CHUNKS;
+}
+
+export function needsChunking(
+  htmlContent: string,
+  maxTokens: number = getChunkMaxTokens()
+): boolean {
+  return estimateTokens(htmlContent) > maxTokens;
+}
+
+interface Block {
+  html: string;
+  section?: string;
+}
+
+/**
+ * Split an element into blocks that each fit the budget, descending into
+ * children only when an element is too large on its own
+ */
+function collectBlocks(node: Node, maxChars: number): Block[] {
+  const html = node.toString();
+  const tag =
+    node.nodeType === NodeType.ELEMENT_NODE
+      ? (node as HTMLElement).rawTagName
+      : undefined;
+  const section = tag && SECTION_TAGS.has(tag) ? tag : undefined;
+
+  if (html.length <= maxChars) {
+    return html.trim() ? [{ html, section }] : [];
+  }
+
+  if (node.nodeType === NodeType.ELEMENT_NODE && node.childNodes.length > 0) {
+    const blocks = node.childNodes.flatMap((child) =>
+      collectBlocks(child, maxChars)
+    );
+    // Keep the landmark label on the first block of an oversized section
+    if (section && blocks.length > 0 && !blocks[0].section) {
+      blocks[0] = { ...blocks[0], section };
+    }
+    return blocks;
+  }
+
+  // A single text node or leaf larger than the budget: slice it
+  const slices: Block[] = [];
+  for (let offset = 0; offset < html.length; offset += maxChars) {
+    slices.push({ html: html.substring(offset, offset + maxChars) });
+  }
+  return slices;
+}
+
+/**
+ * Split HTML into section-aware chunks that each fit within `maxTokens`.
+ * Consecutive blocks are packed greedily; landmark elements start a new
+ * chunk when the current one is already at least half full.
+ */
+export function chunkHTML(
+  htmlContent: string,
+  maxTokens: number = getChunkMaxTokens()
+): HTMLChunk[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const root = parse(htmlContent, { lowerCaseTagName: true });
+  const body = root.querySelector("body") || root;
+  const title = root.querySelector("title")?.text.trim();
+
+  const blocks = body.childNodes.flatMap((child) =>
+    collectBlocks(child, maxChars)
+  );
+
+  const chunks: HTMLChunk[] = [];
+  let current: Block[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const html = current.map((block) => block.html).join("\n");
+    chunks.push({
+      index: chunks.length,
+      html:
+        chunks.length === 0 && title ? `<title>${title}</title>\n${html}` : html,
+      estimatedTokens: estimateTokens(html),
+      sections: current
+        .map((block) => block.section)
+        .filter((section): section is string => !!section),
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const block of blocks) {
+    const wouldOverflow = currentLength + block.html.length > maxChars;
+    const startsSection = !!block.section && currentLength > maxChars / 2;
+    if (wouldOverflow || startsSection) {
+      flush();
+    }
+    current.push(block);
+    currentLength += block.html.length + 1;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Trim text to at most `maxChars`, preferring to end on a sentence boundary
+ */
+export function fitToLength(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const truncated = text.substring(0, maxChars);
+  const lastSentence = truncated.lastIndexOf(". ");
+  return lastSentence > maxChars * 0.6
+    ? truncated.substring(0, lastSentence + 1)
+    : truncated;
+}
@@ -1,4 +1,5 @@
 import { posthogOpenAI } from "../lib/openai";
+import { checkUrlAgainstPolicy, NetworkPolicyError } from "./network-policy";
 
 export interface URLValidationResult {
   isValid: boolean;
@@ -6,42 +7,34 @@ export interface URLValidationResult {
   category?: "safe" | "potentially_unsafe" | "unsafe";
 }
 
-export async function validateURL(url: string): Promise<URLValidationResult> {
+// Thrown by the generate pipeline for URLs it won't fetch
+export class URLValidationError extends Error {
+  constructor(readonly result: URLValidationResult) {
+    super(`URL validation failed: ${result.reason}`);
+    this.name = "URLValidationError";
+  }
+}
+
+export async function validateURL(
+  url: string,
+  signal?: AbortSignal
+): Promise<URLValidationResult> {
   try {
-    // Basic URL format validation first
+    // Resolve the host and check the protocol and every resolved address
+    // against the network policy before anything else
     try {
-      new URL(url);
+      await checkUrlAgainstPolicy(url);
     } catch (error) {
       return {
         isValid: false,
-        reason: "Invalid URL format",
+        reason:
+          error instanceof NetworkPolicyError
+            ? error.message
+            : "URL points to private/local network or uses unsafe protocol",
         category: "unsafe",
       };
     }
 
-    // Check for obviously unsafe patterns
-    const unsafePatterns = [
-      /localhost/i,
-      /127\.0\.0\.1/i,
-      /192\.168\./i,
-      /10\./i,
-      /172\.1[6-9]\./i,
-      /172\.2[0-9]\./i,
-      /172\.3[0-1]\./i,
-      /file:/i,
-      /ftp:/i,
-    ];
-
-    for (const pattern of unsafePatterns) {
-      if (pattern.test(url)) {
-        return {
-          isValid: false,
-          reason: "URL points to private/local network or uses unsafe protocol",
-          category: "unsafe",
-        };
-      }
-    }
-
     // Use GPT-5-nano for content safety validation (faster and cheaper)
     const response = await posthogOpenAI.chat.completions.create({
       model: "gpt-5-nano",
@@ -100,7 +93,7 @@ Social media with mixed content
           content: url,
         },
       ],
-    });
+    }, { signal });
 
     const text = response.choices[0]?.message?.content || "";
     const lines = text.trim().split("\n");
@@ -134,6 +127,8 @@ Social media with mixed content
         };
     }
   } catch (error) {
+    // A cancelled request must not be mistaken for a validation result
+    signal?.throwIfAborted();
     console.error("Error validating URL:", error);
     // On validation error, allow but mark as potentially unsafe
     return {